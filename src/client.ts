@@ -1,13 +1,33 @@
-import { ClientOptions, TrackEventParams, TrackEventResponse } from './types';
+import {
+  ClientOptions,
+  Metadata,
+  TrackEventOptions,
+  TrackEventParams,
+  TrackEventResponse,
+} from './types';
 import { ApiClient } from './utils/api';
 import { Logger } from './utils/logger';
 import { createAuth } from './auth';
-import { Customers, Usage } from './resources';
+import {
+  Agents,
+  Credits,
+  Customers,
+  Entitlements,
+  Invoices,
+  Organizations,
+  Plans,
+  Signals,
+  Subscriptions,
+  Usage,
+  Webhooks,
+} from './resources';
 import { RevMaxAuthenticationError, RevMaxInitializationError } from './utils/errors';
 import { AuthMethod } from './types';
 
 /**
  * Interface for organization information
+ *
+ * Only holds what API key verification returns; use client.organization.get() for typed settings.
  */
 export interface OrganizationInfo {
   id: string;
@@ -17,8 +37,14 @@ export interface OrganizationInfo {
 
 /**
  * Main RevMax client class
+ *
+ * @typeParam CustomerMetadata - Shape of customer metadata
+ * @typeParam UsageMetadata - Shape of usage record metadata
  */
-export class RevMaxClient {
+export class RevMaxClient<
+  CustomerMetadata extends Metadata = Metadata,
+  UsageMetadata extends Metadata = Metadata,
+> {
   /**
    * API client for making requests
    */
@@ -37,12 +63,57 @@ export class RevMaxClient {
   /**
    * Customer resource
    */
-  public readonly customers: Customers;
+  public readonly customers: Customers<CustomerMetadata>;
 
   /**
    * Usage resource
    */
-  public readonly usage: Usage;
+  public readonly usage: Usage<UsageMetadata>;
+
+  /**
+   * Agent resource
+   */
+  public readonly agents: Agents;
+
+  /**
+   * Signal resource
+   */
+  public readonly signals: Signals;
+
+  /**
+   * Plan resource
+   */
+  public readonly plans: Plans;
+
+  /**
+   * Subscription resource
+   */
+  public readonly subscriptions: Subscriptions;
+
+  /**
+   * Invoice resource
+   */
+  public readonly invoices: Invoices;
+
+  /**
+   * Entitlement resource
+   */
+  public readonly entitlements: Entitlements;
+
+  /**
+   * Credit resource
+   */
+  public readonly credits: Credits;
+
+  /**
+   * Organization resource
+   */
+  public readonly organization: Organizations;
+
+  /**
+   * Webhook verification helper
+   */
+  public readonly webhooks: Webhooks;
 
   /**
    * Organization information from API key verification
@@ -67,8 +138,24 @@ export class RevMaxClient {
     this.apiClient = new ApiClient(this.auth, options, this.logger);
 
     // Initialize resources (they won't work until connect is called)
-    this.customers = new Customers(this.apiClient, this.logger);
-    this.usage = new Usage(this.apiClient, this.logger);
+    this.customers = new Customers(this.apiClient, this.logger, options);
+    this.agents = new Agents(this.apiClient, this.logger);
+    this.signals = new Signals(this.apiClient, this.logger);
+    this.credits = new Credits(this.apiClient, this.logger, options);
+    this.usage = new Usage(
+      this.apiClient,
+      this.logger,
+      options,
+      this.customers,
+      this.signals,
+      this.credits
+    );
+    this.plans = new Plans(this.apiClient, this.logger);
+    this.subscriptions = new Subscriptions(this.apiClient, this.logger);
+    this.invoices = new Invoices(this.apiClient, this.logger);
+    this.entitlements = new Entitlements(this.apiClient, this.logger, options);
+    this.organization = new Organizations(this.apiClient, this.logger);
+    this.webhooks = new Webhooks(this.logger);
   }
 
   /**
@@ -79,7 +166,7 @@ export class RevMaxClient {
    * @throws RevMaxAuthenticationError if API key is invalid
    * @throws RevMaxInitializationError for other initialization errors
    */
-  public async connect(): Promise<RevMaxClient> {
+  public async connect(): Promise<RevMaxClient<CustomerMetadata, UsageMetadata>> {
     try {
       this.logger.info('Connecting to RevMax API and verifying API key...');
       const result = await this.apiClient.get('/verify');
@@ -129,6 +216,7 @@ export class RevMaxClient {
 
   /**
    * Get organization information
+   * Use client.organization.get() for the organization settings
    * @returns Organization information from API key verification
    * @throws Error if organization info is not available
    */
@@ -145,10 +233,14 @@ export class RevMaxClient {
   /**
    * Track event for a customer (shorthand method)
    * @param params - Event tracking parameters
+   * @param options - Track event options (e.g. idempotency key, progress callback)
    * @returns Tracked event data
    */
-  async trackEvent(params: TrackEventParams): Promise<TrackEventResponse> {
-    return this.usage.trackEvent(params);
+  async trackEvent(
+    params: TrackEventParams<UsageMetadata>,
+    options?: TrackEventOptions
+  ): Promise<TrackEventResponse> {
+    return this.usage.trackEvent(params, options);
   }
 
   /**
@@ -197,6 +289,17 @@ export class RevMaxClient {
     }
   }
 
+  /**
+   * Flush buffered usage events and stop background work
+   * Call this before your process exits when batching is enabled
+   *
+   * @returns Promise resolving once all pending events have been sent
+   */
+  async shutdown(): Promise<void> {
+    this.logger.info('Shutting down RevMaxClient...');
+    await this.usage.shutdown();
+  }
+
   /**
    * Get current telemetry statistics
    * @returns Telemetry statistics
@@ -48,8 +48,14 @@ export {
   RevMaxAuthenticationError,
   RevMaxRateLimitError,
   RevMaxValidationError,
+  RevMaxPartialBatchError,
+  RevMaxSpooledError,
   RevMaxNotFoundError,
   RevMaxInitializationError,
+  RevMaxSignatureVerificationError,
 } from './utils/errors';
 
+// Export webhook verification, usable without a client
+export { Webhooks, webhooks, WEBHOOK_SIGNATURE_HEADER } from './resources/webhooks';
+
 // Legacy export for backward compatibility
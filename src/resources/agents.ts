@@ -0,0 +1,204 @@
+import { ApiClient } from '../utils/api';
+import { RevMaxValidationError } from '../utils/errors';
+import { Logger } from '../utils/logger';
+import { iterateItems, iteratePages } from '../utils/pagination';
+import {
+  Agent,
+  AgentCreateParams,
+  AgentListParams,
+  AgentListResponse,
+  AgentUpdateParams,
+  AutoPaginationOptions,
+  RequestOptions,
+  TrackEventParams,
+  UsageRecord,
+} from '../types';
+
+/**
+ * How long the registered agents are used to validate records before they are listed again
+ */
+const AGENT_REGISTRY_TTL = 5 * 60 * 1000;
+
+/**
+ * Agent resource for managing the agents that usage is recorded for
+ */
+export class Agents {
+  private readonly client: ApiClient;
+  private readonly logger: Logger;
+  private readonly basePath: string = '/agents';
+  private registry: Promise<Map<string, Agent>> | null = null;
+  private registryExpiresAt: number = 0;
+
+  /**
+   * Create a new agent resource
+   * @param client - API client
+   * @param logger - Logger instance
+   */
+  constructor(client: ApiClient, logger: Logger) {
+    this.client = client;
+    this.logger = logger;
+  }
+
+  /**
+   * Create a new agent
+   * @param params - Agent creation parameters
+   * @param options - Request options (e.g. idempotency key)
+   * @returns Created agent
+   */
+  async create(params: AgentCreateParams, options?: RequestOptions): Promise<Agent> {
+    this.logger.info('Creating agent', params);
+    const agent = await this.client.post<Agent>(this.basePath, params, options);
+    this.clearRegistry();
+    return agent;
+  }
+
+  /**
+   * Get a specific agent by ID
+   * @param id - Agent ID
+   * @returns Agent data
+   */
+  async get(id: string): Promise<Agent> {
+    this.logger.info(`Retrieving agent: ${id}`);
+    return this.client.get<Agent>(`${this.basePath}/${id}`);
+  }
+
+  /**
+   * Update an agent
+   * @param id - Agent ID
+   * @param params - Agent update parameters
+   * @param options - Request options (e.g. idempotency key)
+   * @returns Updated agent
+   */
+  async update(id: string, params: AgentUpdateParams, options?: RequestOptions): Promise<Agent> {
+    this.logger.info(`Updating agent: ${id}`, params);
+    return this.client.patch<Agent>(`${this.basePath}/${id}`, params, options);
+  }
+
+  /**
+   * Retire an agent; usage recorded for it afterwards is rejected, but its history is kept
+   * @param id - Agent ID
+   * @param options - Request options (e.g. idempotency key)
+   * @returns Retired agent
+   */
+  async retire(id: string, options?: RequestOptions): Promise<Agent> {
+    this.logger.info(`Retiring agent: ${id}`);
+    const agent = await this.client.post<Agent>(`${this.basePath}/${id}/retire`, {}, options);
+    this.clearRegistry();
+    return agent;
+  }
+
+  /**
+   * Delete an agent
+   * @param id - Agent ID
+   * @param options - Request options (e.g. idempotency key)
+   * @returns Void
+   */
+  async delete(id: string, options?: RequestOptions): Promise<void> {
+    this.logger.info(`Deleting agent: ${id}`);
+    await this.client.delete(`${this.basePath}/${id}`, options);
+    this.clearRegistry();
+  }
+
+  /**
+   * List agents with pagination and filtering
+   * @param params - List parameters
+   * @returns Paginated list of agents
+   */
+  async list(params: AgentListParams = {}): Promise<AgentListResponse> {
+    this.logger.info('Listing agents', params);
+    return this.client.get<AgentListResponse>(this.basePath, params);
+  }
+
+  /**
+   * Iterate over every page of agents matching the filters
+   * @param params - List parameters (page is the first page to fetch)
+   * @param options - Auto-pagination options
+   * @returns Async iterator over pages of agents
+   */
+  listPages(
+    params: AgentListParams = {},
+    options?: AutoPaginationOptions
+  ): AsyncGenerator<AgentListResponse, void, undefined> {
+    return iteratePages((page) => this.list({ ...params, page }), params.page, options);
+  }
+
+  /**
+   * Iterate over every agent matching the filters, fetching pages as needed
+   * @param params - List parameters (page is the first page to fetch)
+   * @param options - Auto-pagination options
+   * @returns Async iterator over agents
+   */
+  listAll(
+    params: AgentListParams = {},
+    options?: AutoPaginationOptions
+  ): AsyncGenerator<Agent, void, undefined> {
+    return iterateItems((page) => this.list({ ...params, page }), params.page, options);
+  }
+
+  /**
+   * Check that the agentId of usage records refers to an active registered agent
+   *
+   * The registered agents are listed once and reused for five minutes, or until an agent
+   * is created, retired or deleted through this resource.
+   *
+   * @param params - Event tracking parameters (single record or batch), as passed to trackEvent
+   * @throws RevMaxValidationError with errors keyed by field path (e.g. "records[3].agentId")
+   */
+  async validateRecords(params: TrackEventParams): Promise<void> {
+    const isBatch = 'records' in params;
+    const records: UsageRecord[] = isBatch ? params.records : [params];
+    const agents = await this.getRegistry();
+    const errors: Record<string, string[]> = {};
+
+    records.forEach((record, index) => {
+      const path = isBatch ? `records[${index}].agentId` : 'agentId';
+      const agent = agents.get(record.agentId);
+      if (!agent) {
+        errors[path] = [`unknown agent "${record.agentId}"`];
+      } else if (agent.status === 'retired') {
+        errors[path] = [`agent "${record.agentId}" is retired`];
+      }
+    });
+
+    const count = Object.keys(errors).length;
+    if (count > 0) {
+      throw new RevMaxValidationError(
+        `Invalid usage ${isBatch ? 'records' : 'record'}: ${count} record(s) reference unknown or retired agents`,
+        errors
+      );
+    }
+  }
+
+  /**
+   * Forget the registered agents used by validateRecords, so they are listed again
+   */
+  clearRegistry(): void {
+    this.registry = null;
+    this.registryExpiresAt = 0;
+  }
+
+  /**
+   * Get the registered agents by ID, listing them if needed
+   * @returns Registered agents by ID
+   */
+  private getRegistry(): Promise<Map<string, Agent>> {
+    if (!this.registry || this.registryExpiresAt <= Date.now()) {
+      const registry = (async () => {
+        const agents = new Map<string, Agent>();
+        for await (const agent of this.listAll({ limit: 100 })) {
+          agents.set(agent.id, agent);
+        }
+        return agents;
+      })();
+      this.registry = registry;
+      this.registryExpiresAt = Date.now() + AGENT_REGISTRY_TTL;
+
+      // List again next time if listing failed
+      registry.catch(() => {
+        if (this.registry === registry) this.clearRegistry();
+      });
+    }
+
+    return this.registry;
+  }
+}
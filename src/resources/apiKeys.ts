@@ -0,0 +1,99 @@
+import { ApiClient } from '../utils/api';
+import { Logger } from '../utils/logger';
+import { iterateItems, iteratePages } from '../utils/pagination';
+import {
+  ApiKey,
+  ApiKeyCreateParams,
+  ApiKeyListParams,
+  ApiKeyListResponse,
+  AutoPaginationOptions,
+  CreatedApiKey,
+  RequestOptions,
+} from '../types';
+
+/**
+ * API key resource for managing the keys of the organization
+ */
+export class ApiKeys {
+  private readonly client: ApiClient;
+  private readonly logger: Logger;
+  private readonly basePath: string = '/organization/api-keys';
+
+  /**
+   * Create a new API key resource
+   * @param client - API client
+   * @param logger - Logger instance
+   */
+  constructor(client: ApiClient, logger: Logger) {
+    this.client = client;
+    this.logger = logger;
+  }
+
+  /**
+   * Create a restricted API key
+   * @param params - Key name, scopes and optional expiry
+   * @param options - Request options (e.g. idempotency key)
+   * @returns Created key; its secret is only available in this response
+   */
+  async create(params: ApiKeyCreateParams, options?: RequestOptions): Promise<CreatedApiKey> {
+    this.logger.info('Creating API key', params);
+    return this.client.post<CreatedApiKey>(this.basePath, params, options);
+  }
+
+  /**
+   * Get a specific API key by ID
+   * @param id - API key ID
+   * @returns API key data, including when it was last used
+   */
+  async get(id: string): Promise<ApiKey> {
+    this.logger.info(`Retrieving API key: ${id}`);
+    return this.client.get<ApiKey>(`${this.basePath}/${id}`);
+  }
+
+  /**
+   * Revoke an API key; requests made with it are rejected from then on
+   * @param id - API key ID
+   * @param options - Request options (e.g. idempotency key)
+   * @returns Revoked API key
+   */
+  async revoke(id: string, options?: RequestOptions): Promise<ApiKey> {
+    this.logger.info(`Revoking API key: ${id}`);
+    return this.client.post<ApiKey>(`${this.basePath}/${id}/revoke`, {}, options);
+  }
+
+  /**
+   * List API keys with pagination
+   * @param params - List parameters
+   * @returns Paginated list of API keys
+   */
+  async list(params: ApiKeyListParams = {}): Promise<ApiKeyListResponse> {
+    this.logger.info('Listing API keys', params);
+    return this.client.get<ApiKeyListResponse>(this.basePath, params);
+  }
+
+  /**
+   * Iterate over every page of API keys
+   * @param params - List parameters (page is the first page to fetch)
+   * @param options - Auto-pagination options
+   * @returns Async iterator over pages of API keys
+   */
+  listPages(
+    params: ApiKeyListParams = {},
+    options?: AutoPaginationOptions
+  ): AsyncGenerator<ApiKeyListResponse, void, undefined> {
+    return iteratePages((page) => this.list({ ...params, page }), params.page, options);
+  }
+
+  /**
+   * Iterate over every API key, fetching pages as needed
+   * @param params - List parameters (page is the first page to fetch)
+   * @param options - Auto-pagination options
+   * @returns Async iterator over API keys
+   */
+  listAll(
+    params: ApiKeyListParams = {},
+    options?: AutoPaginationOptions
+  ): AsyncGenerator<ApiKey, void, undefined> {
+    return iterateItems((page) => this.list({ ...params, page }), params.page, options);
+  }
+}
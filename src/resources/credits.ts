@@ -0,0 +1,172 @@
+import { ApiClient } from '../utils/api';
+import { Logger } from '../utils/logger';
+import { iterateItems, iteratePages } from '../utils/pagination';
+import {
+  AutoPaginationOptions,
+  ClientOptions,
+  CreditBalance,
+  CreditExpireParams,
+  CreditGrant,
+  CreditGrantParams,
+  CreditLedgerEntry,
+  CreditLedgerListParams,
+  CreditLedgerListResponse,
+  CreditOptions,
+  RequestOptions,
+} from '../types';
+
+/**
+ * Default number of customers whose last balance is tracked for the low-balance callback
+ */
+const DEFAULT_MAX_TRACKED_BALANCES = 1000;
+
+/**
+ * Credit resource for prepaid customer balances
+ */
+export class Credits {
+  private readonly client: ApiClient;
+  private readonly logger: Logger;
+  private readonly basePath: string = '/credits';
+  private readonly options: CreditOptions;
+  private readonly balances: Map<string, number> = new Map();
+
+  /**
+   * Create a new credit resource
+   * @param client - API client
+   * @param logger - Logger instance
+   * @param options - Client options
+   */
+  constructor(client: ApiClient, logger: Logger, options: ClientOptions = {}) {
+    this.client = client;
+    this.logger = logger;
+    this.options = options.credits || {};
+  }
+
+  /**
+   * Get the credit balance of a customer
+   * @param customerExternalId - External ID of the customer
+   * @returns Current balance
+   */
+  async getBalance(customerExternalId: string): Promise<CreditBalance> {
+    this.logger.info(`Retrieving credit balance: ${customerExternalId}`);
+    const balance = await this.client.get<CreditBalance>(`${this.basePath}/balance`, {
+      customerExternalId,
+    });
+    this.observeBalance(customerExternalId, balance.balance);
+    return balance;
+  }
+
+  /**
+   * Grant credits to a customer
+   * @param params - Grant parameters, including the reason recorded in the ledger
+   * @param options - Request options (e.g. idempotency key)
+   * @returns Created grant
+   */
+  async grant(params: CreditGrantParams, options?: RequestOptions): Promise<CreditGrant> {
+    this.logger.info('Granting credits', params);
+    return this.client.post<CreditGrant>(`${this.basePath}/grants`, params, options);
+  }
+
+  /**
+   * Expire the remaining credits of a grant
+   * @param grantId - Grant ID
+   * @param params - Expiration parameters, including the reason recorded in the ledger
+   * @param options - Request options (e.g. idempotency key)
+   * @returns Expired grant
+   */
+  async expire(
+    grantId: string,
+    params: CreditExpireParams,
+    options?: RequestOptions
+  ): Promise<CreditGrant> {
+    this.logger.info(`Expiring credit grant: ${grantId}`, params);
+    return this.client.post<CreditGrant>(
+      `${this.basePath}/grants/${grantId}/expire`,
+      params,
+      options
+    );
+  }
+
+  /**
+   * List credit ledger entries with pagination and filtering
+   * @param params - List parameters
+   * @returns Paginated list of ledger entries, newest first
+   */
+  async listLedger(params: CreditLedgerListParams = {}): Promise<CreditLedgerListResponse> {
+    this.logger.info('Listing credit ledger entries', params);
+    return this.client.get<CreditLedgerListResponse>(`${this.basePath}/ledger`, params);
+  }
+
+  /**
+   * Iterate over every page of credit ledger entries matching the filters
+   * @param params - List parameters (page is the first page to fetch)
+   * @param options - Auto-pagination options
+   * @returns Async iterator over pages of ledger entries
+   */
+  listLedgerPages(
+    params: CreditLedgerListParams = {},
+    options?: AutoPaginationOptions
+  ): AsyncGenerator<CreditLedgerListResponse, void, undefined> {
+    return iteratePages((page) => this.listLedger({ ...params, page }), params.page, options);
+  }
+
+  /**
+   * Iterate over every credit ledger entry matching the filters, fetching pages as needed
+   * @param params - List parameters (page is the first page to fetch)
+   * @param options - Auto-pagination options
+   * @returns Async iterator over ledger entries
+   */
+  listLedgerAll(
+    params: CreditLedgerListParams = {},
+    options?: AutoPaginationOptions
+  ): AsyncGenerator<CreditLedgerEntry, void, undefined> {
+    return iterateItems((page) => this.listLedger({ ...params, page }), params.page, options);
+  }
+
+  /**
+   * Compare a balance reported by the API with the low-balance threshold
+   *
+   * onLowBalance is called once when the balance falls below the threshold, and again only
+   * after a later balance went back up to the threshold or above. Only the last balances of the
+   * maxSize most recently seen customers are kept.
+   *
+   * @param customerExternalId - External ID of the customer
+   * @param balance - Balance reported by the API
+   */
+  observeBalance(customerExternalId: string, balance: number): void {
+    const {
+      onLowBalance,
+      lowBalanceThreshold: threshold = 0,
+      maxSize = DEFAULT_MAX_TRACKED_BALANCES,
+    } = this.options;
+    if (!onLowBalance) {
+      return;
+    }
+
+    const previous = this.balances.get(customerExternalId);
+    this.balances.delete(customerExternalId);
+    this.balances.set(customerExternalId, balance);
+    if (this.balances.size > maxSize) {
+      this.balances.delete(this.balances.keys().next().value as string);
+    }
+    if (balance >= threshold || (previous !== undefined && previous < threshold)) {
+      return;
+    }
+
+    this.logger.warn(`Credit balance of ${customerExternalId} fell below ${threshold}`, {
+      balance,
+    });
+
+    const event = {
+      customerExternalId,
+      balance,
+      previousBalance: previous ?? null,
+      threshold,
+    };
+    Promise.resolve()
+      .then(() => onLowBalance(event))
+      .catch((error) => {
+        this.logger.error('Low-balance callback failed', { error });
+      });
+  }
+}
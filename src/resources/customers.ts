@@ -1,64 +1,323 @@
 import { ApiClient } from '../utils/api';
+import { CustomerCache } from '../utils/cache';
+import { parseCsv } from '../utils/csv';
+import { diffCustomer, mapCustomerRow } from '../utils/customerSync';
+import { RevMaxApiError, RevMaxValidationError } from '../utils/errors';
 import { Logger } from '../utils/logger';
-import { Customer, CustomerCreateParams, CustomerUpdateParams, CustomerListParams, CustomerListResponse } from '../types';
+import { iterateItems, iteratePages } from '../utils/pagination';
+import {
+  AutoPaginationOptions,
+  ClientOptions,
+  Customer,
+  CustomerCreateParams,
+  CustomerUpdateParams,
+  CustomerListParams,
+  CustomerListResponse,
+  CustomerStatusChangeParams,
+  CustomerStatusHistoryParams,
+  CustomerStatusHistoryResponse,
+  CustomerSyncOptions,
+  CustomerSyncReport,
+  CustomerSyncRow,
+  CustomerSyncRowResult,
+  Metadata,
+  RequestOptions,
+} from '../types';
+
+/**
+ * Default number of concurrent requests of a customer sync
+ */
+const DEFAULT_SYNC_CONCURRENCY = 5;
+
+/**
+ * Number of external IDs looked up per list request of a customer sync
+ */
+const SYNC_LOOKUP_BATCH_SIZE = 50;
 
 /**
  * Customer resource for managing customers
  */
-export class Customers {
+export class Customers<M extends Metadata = Metadata> {
   private readonly client: ApiClient;
   private readonly logger: Logger;
   private readonly basePath: string = '/customers';
+  private readonly ensuring: Map<string, Promise<Customer<M>>> = new Map();
+  private readonly cache: CustomerCache<Customer<M>> | null = null;
 
   /**
    * Create a new customer resource
    * @param client - API client
    * @param logger - Logger instance
+   * @param options - Client options
    */
-  constructor(client: ApiClient, logger: Logger) {
+  constructor(client: ApiClient, logger: Logger, options: ClientOptions = {}) {
     this.client = client;
     this.logger = logger;
+
+    if (options.customerCache?.enabled) {
+      this.cache = new CustomerCache(options.customerCache);
+    }
   }
 
   /**
    * Create a new customer
    * @param params - Customer creation parameters
+   * @param options - Request options (e.g. idempotency key)
    * @returns Created customer
    */
-  async create(params: CustomerCreateParams): Promise<Customer> {
+  async create(params: CustomerCreateParams<M>, options?: RequestOptions): Promise<Customer<M>> {
     this.logger.info('Creating customer', params);
-    return this.client.post<Customer>(this.basePath, params);
+    return this.client.post<Customer<M>>(this.basePath, params, options);
   }
 
   /**
    * Get a specific customer by ID
+   *
+   * When the customer cache is enabled, a cached customer is returned until its TTL expires,
+   * and then revalidated with its ETag if the API sent one.
+   *
    * @param id - Customer ID
    * @returns Customer data
    */
-  async get(id: string): Promise<Customer> {
+  async get(id: string): Promise<Customer<M>> {
+    if (!this.cache) {
+      this.logger.info(`Retrieving customer: ${id}`);
+      return this.client.get<Customer<M>>(`${this.basePath}/${id}`);
+    }
+
+    const cached = this.cache.get(id);
+    if (cached && this.cache.isFresh(cached)) {
+      this.logger.debug(`Customer ${id} served from cache`);
+      return cached.value;
+    }
+
     this.logger.info(`Retrieving customer: ${id}`);
-    return this.client.get<Customer>(`${this.basePath}/${id}`);
+    const response = await this.client.getConditional<Customer<M>>(
+      `${this.basePath}/${id}`,
+      undefined,
+      this.cache.revalidate ? cached?.etag : undefined
+    );
+
+    if (response.notModified && cached) {
+      this.logger.debug(`Customer ${id} not modified, keeping cached version`);
+      this.cache.refresh(id);
+      return cached.value;
+    }
+
+    const customer = response.data as Customer<M>;
+    this.cache.set(customer, response.etag);
+    return customer;
+  }
+
+  /**
+   * Get a customer by its external ID
+   * @param externalId - External ID of the customer in your system
+   * @returns Customer data, or null if no customer has this external ID
+   */
+  async getByExternalId(externalId: string): Promise<Customer<M> | null> {
+    const cachedId = this.cache?.getId(externalId);
+    if (cachedId) {
+      try {
+        return await this.get(cachedId);
+      } catch (error) {
+        // Deleted since it was cached, so look it up again below
+        if (!(error instanceof RevMaxApiError) || error.statusCode !== 404) throw error;
+        this.cache!.invalidate(cachedId);
+      }
+    }
+
+    this.logger.info(`Retrieving customer by external ID: ${externalId}`);
+    const response = await this.list({ externalId, limit: 1 });
+    const customer =
+      (response.results || []).find((result) => result.externalId === externalId) || null;
+
+    if (customer && this.cache) {
+      this.cache.set(customer);
+    }
+    return customer;
+  }
+
+  /**
+   * Create a customer with the given external ID, or update it if it already exists
+   * @param externalId - External ID of the customer in your system
+   * @param params - Customer parameters
+   * @param options - Request options (e.g. idempotency key)
+   * @returns Created or updated customer
+   */
+  async upsert(
+    externalId: string,
+    params: CustomerCreateParams<M>,
+    options?: RequestOptions
+  ): Promise<Customer<M>> {
+    const existing = await this.getByExternalId(externalId);
+    if (existing) {
+      return this.update(existing.id, { ...params, externalId }, options);
+    }
+
+    try {
+      return await this.create({ ...params, externalId }, options);
+    } catch (error) {
+      // Another caller created the customer since the lookup, so update it instead
+      const created = await this.findAfterConflict(externalId, error);
+      return this.update(created.id, { ...params, externalId }, options);
+    }
+  }
+
+  /**
+   * Get the customer with the given external ID, creating it if it does not exist yet
+   *
+   * Existing customers are returned unchanged. Concurrent calls for the same external ID
+   * share one request, and a customer created by another process in the meantime is
+   * returned instead of failing with a conflict.
+   *
+   * @param externalId - External ID of the customer in your system
+   * @param params - Parameters used if the customer has to be created
+   * @param options - Request options (e.g. idempotency key)
+   * @returns Existing or created customer
+   */
+  async ensure(
+    externalId: string,
+    params: CustomerCreateParams<M>,
+    options?: RequestOptions
+  ): Promise<Customer<M>> {
+    const pending = this.ensuring.get(externalId);
+    if (pending) return pending;
+
+    const ensuring = (async () => {
+      const existing = await this.getByExternalId(externalId);
+      if (existing) return existing;
+
+      try {
+        return await this.create({ ...params, externalId }, options);
+      } catch (error) {
+        return this.findAfterConflict(externalId, error);
+      }
+    })();
+
+    this.ensuring.set(externalId, ensuring);
+    try {
+      return await ensuring;
+    } finally {
+      this.ensuring.delete(externalId);
+    }
   }
 
   /**
    * Update a customer
    * @param id - Customer ID
    * @param params - Customer update parameters
+   * @param options - Request options (e.g. idempotency key)
    * @returns Updated customer
    */
-  async update(id: string, params: CustomerUpdateParams): Promise<Customer> {
+  async update(
+    id: string,
+    params: CustomerUpdateParams<M>,
+    options?: RequestOptions
+  ): Promise<Customer<M>> {
     this.logger.info(`Updating customer: ${id}`, params);
-    return this.client.patch<Customer>(`${this.basePath}/${id}`, params);
+    const customer = await this.client.patch<Customer<M>>(
+      `${this.basePath}/${id}`,
+      params,
+      options
+    );
+    this.cache?.invalidate(id);
+    return customer;
   }
 
   /**
    * Delete a customer
    * @param id - Customer ID
+   * @param options - Request options (e.g. idempotency key)
    * @returns Void
    */
-  async delete(id: string): Promise<void> {
+  async delete(id: string, options?: RequestOptions): Promise<void> {
     this.logger.info(`Deleting customer: ${id}`);
-    return this.client.delete(`${this.basePath}/${id}`);
+    await this.client.delete(`${this.basePath}/${id}`, options);
+    this.cache?.invalidate(id);
+  }
+
+  /**
+   * Suspend a customer, e.g. for non-payment
+   * @param id - Customer ID
+   * @param params - Reason for the suspension
+   * @param options - Request options (e.g. idempotency key)
+   * @returns Suspended customer
+   */
+  async suspend(
+    id: string,
+    params: CustomerStatusChangeParams = {},
+    options?: RequestOptions
+  ): Promise<Customer<M>> {
+    return this.changeStatus(id, 'suspend', params, options);
+  }
+
+  /**
+   * Reactivate a suspended customer
+   * @param id - Customer ID
+   * @param params - Reason for the reactivation
+   * @param options - Request options (e.g. idempotency key)
+   * @returns Reactivated customer
+   */
+  async reactivate(
+    id: string,
+    params: CustomerStatusChangeParams = {},
+    options?: RequestOptions
+  ): Promise<Customer<M>> {
+    return this.changeStatus(id, 'reactivate', params, options);
+  }
+
+  /**
+   * Archive a customer, keeping its data so it can be restored (unlike delete)
+   * @param id - Customer ID
+   * @param params - Reason for archiving
+   * @param options - Request options (e.g. idempotency key)
+   * @returns Archived customer
+   */
+  async archive(
+    id: string,
+    params: CustomerStatusChangeParams = {},
+    options?: RequestOptions
+  ): Promise<Customer<M>> {
+    return this.changeStatus(id, 'archive', params, options);
+  }
+
+  /**
+   * Restore an archived customer
+   * @param id - Customer ID
+   * @param params - Reason for the restore
+   * @param options - Request options (e.g. idempotency key)
+   * @returns Restored customer
+   */
+  async restore(
+    id: string,
+    params: CustomerStatusChangeParams = {},
+    options?: RequestOptions
+  ): Promise<Customer<M>> {
+    return this.changeStatus(id, 'restore', params, options);
+  }
+
+  /**
+   * List the status changes of a customer, most recent first
+   * @param id - Customer ID
+   * @param params - Pagination parameters
+   * @returns Paginated status history
+   */
+  async listStatusHistory(
+    id: string,
+    params: CustomerStatusHistoryParams = {}
+  ): Promise<CustomerStatusHistoryResponse> {
+    this.logger.info(`Listing status history of customer: ${id}`, params);
+    return this.client.get<CustomerStatusHistoryResponse>(
+      `${this.basePath}/${id}/status-history`,
+      params
+    );
+  }
+
+  /**
+   * Remove every customer from the customer cache
+   */
+  clearCache(): void {
+    this.cache?.clear();
   }
 
   /**
@@ -66,8 +325,265 @@ export class Customers {
    * @param params - List parameters
    * @returns Paginated list of customers
    */
-  async list(params: CustomerListParams = {}): Promise<CustomerListResponse> {
+  async list(params: CustomerListParams = {}): Promise<CustomerListResponse<M>> {
     this.logger.info('Listing customers', params);
-    return this.client.get<CustomerListResponse>(this.basePath, params);
+    return this.client.get<CustomerListResponse<M>>(this.basePath, params);
+  }
+
+  /**
+   * Iterate over every page of customers matching the filters
+   * @param params - List parameters (page is the first page to fetch)
+   * @param options - Auto-pagination options
+   * @returns Async iterator over pages of customers
+   */
+  listPages(
+    params: CustomerListParams = {},
+    options?: AutoPaginationOptions
+  ): AsyncGenerator<CustomerListResponse<M>, void, undefined> {
+    return iteratePages((page) => this.list({ ...params, page }), params.page, options);
+  }
+
+  /**
+   * Iterate over every customer matching the filters, fetching pages as needed
+   * @param params - List parameters (page is the first page to fetch)
+   * @param options - Auto-pagination options
+   * @returns Async iterator over customers
+   */
+  listAll(
+    params: CustomerListParams = {},
+    options?: AutoPaginationOptions
+  ): AsyncGenerator<Customer<M>, void, undefined> {
+    return iterateItems((page) => this.list({ ...params, page }), params.page, options);
+  }
+
+  /**
+   * Sync customers from rows of a CRM export
+   *
+   * Each row is mapped onto customer parameters and matched with existing customers by
+   * externalId. Missing customers are created, changed ones are updated and the rest are
+   * left untouched. Rows that fail do not stop the sync and are listed in the report.
+   *
+   * @param rows - Input rows
+   * @param options - Sync options
+   * @returns Report of created, updated, unchanged and failed rows
+   */
+  async sync(
+    rows: CustomerSyncRow[],
+    options: CustomerSyncOptions<M> = {}
+  ): Promise<CustomerSyncReport<M>> {
+    const dryRun = options.dryRun ?? false;
+    const concurrency = Math.max(1, options.concurrency ?? DEFAULT_SYNC_CONCURRENCY);
+    this.logger.info(`Syncing ${rows.length} customers`, { dryRun, concurrency });
+
+    // Map every row first, so that only the customers of the input are looked up
+    const mapped = rows.map((input, index): Partial<CustomerCreateParams<M>> | Error => {
+      try {
+        return options.mapRow
+          ? options.mapRow(input, index)
+          : mapCustomerRow<M>(input, options.columns);
+      } catch (error: any) {
+        return error instanceof Error ? error : new Error(String(error));
+      }
+    });
+    const existing = await this.findByExternalIds(
+      mapped.map((params) => (params instanceof Error ? undefined : params.externalId)),
+      concurrency
+    );
+
+    const results: CustomerSyncRowResult<M>[] = new Array(rows.length);
+    const seen = new Set<string>();
+    let nextRow = 0;
+
+    const syncRow = async (index: number): Promise<CustomerSyncRowResult<M>> => {
+      const row = index + 1;
+      let externalId: string | undefined;
+
+      try {
+        const params = mapped[index];
+        if (params instanceof Error) {
+          throw params;
+        }
+        externalId = params.externalId;
+
+        if (!externalId) {
+          return { row, action: 'failed', error: 'Missing externalId' };
+        }
+        if (seen.has(externalId)) {
+          return { row, externalId, action: 'failed', error: 'Duplicate externalId in input' };
+        }
+        seen.add(externalId);
+
+        const customer = existing.get(externalId);
+        if (!customer) {
+          if (!params.name) {
+            return { row, externalId, action: 'failed', error: 'Missing name' };
+          }
+          const changes = { ...params, name: params.name };
+          return {
+            row,
+            externalId,
+            action: 'created',
+            changes,
+            customer: dryRun ? undefined : await this.create(changes),
+          };
+        }
+
+        const changes = diffCustomer(customer, params);
+        if (!changes) {
+          return { row, externalId, action: 'unchanged', customer };
+        }
+
+        return {
+          row,
+          externalId,
+          action: 'updated',
+          changes,
+          customer: dryRun ? undefined : await this.update(customer.id, changes),
+        };
+      } catch (error: any) {
+        return { row, externalId, action: 'failed', error: error.message || String(error) };
+      }
+    };
+
+    const worker = async (): Promise<void> => {
+      while (nextRow < rows.length) {
+        const index = nextRow++;
+        results[index] = await syncRow(index);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, rows.length) }, () => worker()));
+
+    const report: CustomerSyncReport<M> = {
+      dryRun,
+      total: rows.length,
+      created: results.filter((result) => result.action === 'created'),
+      updated: results.filter((result) => result.action === 'updated'),
+      unchanged: results.filter((result) => result.action === 'unchanged'),
+      failed: results.filter((result) => result.action === 'failed'),
+    };
+
+    this.logger.info('Customer sync finished', {
+      dryRun,
+      created: report.created.length,
+      updated: report.updated.length,
+      unchanged: report.unchanged.length,
+      failed: report.failed.length,
+    });
+
+    return report;
+  }
+
+  /**
+   * Sync customers from a CSV export with a header row
+   * @param csv - CSV text
+   * @param options - Sync options
+   * @returns Report of created, updated, unchanged and failed rows
+   */
+  async syncCsv(csv: string, options: CustomerSyncOptions<M> = {}): Promise<CustomerSyncReport<M>> {
+    return this.sync(parseCsv(csv, options.delimiter), options);
+  }
+
+  /**
+   * Sync customers from a JSON array of rows
+   * @param json - JSON text
+   * @param options - Sync options
+   * @returns Report of created, updated, unchanged and failed rows
+   */
+  async syncJson(
+    json: string,
+    options: CustomerSyncOptions<M> = {}
+  ): Promise<CustomerSyncReport<M>> {
+    let rows: unknown;
+    try {
+      rows = JSON.parse(json);
+    } catch (error: any) {
+      throw new RevMaxValidationError('Invalid customer JSON', { json: [error.message] });
+    }
+
+    if (!Array.isArray(rows)) {
+      throw new RevMaxValidationError('Invalid customer JSON', {
+        json: ['Expected an array of rows'],
+      });
+    }
+
+    return this.sync(rows, options);
+  }
+
+  /**
+   * Look up existing customers by external ID, with several external IDs per list request
+   * @param externalIds - External IDs to look up (missing ones are skipped)
+   * @param concurrency - Maximum number of list requests in flight at once
+   * @returns Existing customers by external ID
+   */
+  private async findByExternalIds(
+    externalIds: Array<string | undefined>,
+    concurrency: number
+  ): Promise<Map<string, Customer<M>>> {
+    const unique = Array.from(new Set(externalIds.filter((id): id is string => !!id)));
+    const batches: string[][] = [];
+    for (let start = 0; start < unique.length; start += SYNC_LOOKUP_BATCH_SIZE) {
+      batches.push(unique.slice(start, start + SYNC_LOOKUP_BATCH_SIZE));
+    }
+
+    const existing = new Map<string, Customer<M>>();
+    let nextBatch = 0;
+    const worker = async (): Promise<void> => {
+      while (nextBatch < batches.length) {
+        const externalId = batches[nextBatch++];
+        for await (const customer of this.listAll({ externalId, limit: SYNC_LOOKUP_BATCH_SIZE })) {
+          if (customer.externalId) existing.set(customer.externalId, customer);
+        }
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(concurrency, batches.length) }, () => worker())
+    );
+    return existing;
+  }
+
+  /**
+   * Apply a lifecycle action to a customer
+   * @param id - Customer ID
+   * @param action - Lifecycle action
+   * @param params - Reason for the status change
+   * @param options - Request options (e.g. idempotency key)
+   * @returns Updated customer
+   */
+  private async changeStatus(
+    id: string,
+    action: 'suspend' | 'reactivate' | 'archive' | 'restore',
+    params: CustomerStatusChangeParams,
+    options?: RequestOptions
+  ): Promise<Customer<M>> {
+    this.logger.info(`Changing status of customer ${id}: ${action}`, params);
+    const customer = await this.client.post<Customer<M>>(
+      `${this.basePath}/${id}/${action}`,
+      params,
+      options
+    );
+    this.cache?.invalidate(id);
+    return customer;
+  }
+
+  /**
+   * Look up a customer after its creation failed because the external ID is already taken
+   * @param externalId - External ID of the customer
+   * @param error - Error thrown by the create request
+   * @returns Customer created by the other caller
+   */
+  private async findAfterConflict(externalId: string, error: unknown): Promise<Customer<M>> {
+    if (!(error instanceof RevMaxApiError) || error.statusCode !== 409) {
+      throw error;
+    }
+
+    this.logger.debug(`Customer ${externalId} was created concurrently, retrieving it`);
+    const existing = await this.getByExternalId(externalId);
+    if (!existing) {
+      throw error;
+    }
+
+    return existing;
   }
 }
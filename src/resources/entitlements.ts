@@ -0,0 +1,221 @@
+import { ApiClient } from '../utils/api';
+import { RevMaxValidationError } from '../utils/errors';
+import { Logger } from '../utils/logger';
+import {
+  ClientOptions,
+  Entitlement,
+  EntitlementCheckOptions,
+  EntitlementCheckResult,
+  EntitlementOptions,
+} from '../types';
+
+/**
+ * Default entitlement options
+ */
+const DEFAULT_ENTITLEMENT_OPTIONS: Required<EntitlementOptions> = {
+  cacheTtl: 5000,
+  maxSize: 1000,
+  reserve: false,
+};
+
+/**
+ * Cached entitlement with the quantity reserved against it since it was fetched
+ */
+interface EntitlementEntry {
+  entitlement: Entitlement;
+  expiresAt: number;
+  reserved: number;
+}
+
+/**
+ * Entitlement resource for checking plan limits before usage happens
+ */
+export class Entitlements {
+  private readonly client: ApiClient;
+  private readonly logger: Logger;
+  private readonly basePath: string = '/entitlements';
+  private readonly options: Required<EntitlementOptions>;
+  private readonly entries: Map<string, EntitlementEntry> = new Map();
+  private readonly loading: Map<string, Promise<EntitlementEntry>> = new Map();
+
+  /**
+   * Create a new entitlement resource
+   * @param client - API client
+   * @param logger - Logger instance
+   * @param options - Client options
+   */
+  constructor(client: ApiClient, logger: Logger, options: ClientOptions = {}) {
+    this.client = client;
+    this.logger = logger;
+    this.options = { ...DEFAULT_ENTITLEMENT_OPTIONS, ...options.entitlements };
+  }
+
+  /**
+   * Get the entitlement of a customer to a signal from the API
+   * @param customerExternalId - External ID of the customer, as in usage records
+   * @param signalName - Name of the signal, as in usage records
+   * @returns Entitlement for the current period
+   */
+  async get(customerExternalId: string, signalName: string): Promise<Entitlement> {
+    this.logger.info(`Retrieving entitlement: ${customerExternalId}/${signalName}`);
+    return this.client.get<Entitlement>(this.basePath, { customerExternalId, signalName });
+  }
+
+  /**
+   * Check whether a customer may use a quantity of a signal before the usage happens
+   *
+   * Checks are answered from an entitlement cached for a few seconds. With reservations
+   * enabled, allowed quantities are subtracted from the cached remaining quantity, so that
+   * concurrent actions cannot all pass on the same balance; reservations are dropped when the
+   * entitlement is fetched again.
+   *
+   * @param customerExternalId - External ID of the customer, as in usage records
+   * @param signalName - Name of the signal, as in usage records
+   * @param quantity - Quantity the action is about to use
+   * @param options - Check options
+   * @returns Whether the quantity is allowed, the remaining quantity and when it resets
+   * @throws RevMaxValidationError if an identifier is empty or the quantity is invalid
+   */
+  async check(
+    customerExternalId: string,
+    signalName: string,
+    quantity: number = 1,
+    options: EntitlementCheckOptions = {}
+  ): Promise<EntitlementCheckResult> {
+    this.validateCheck(customerExternalId, signalName, quantity);
+
+    const key = this.keyFor(customerExternalId, signalName);
+    const existing = this.entries.get(key);
+    const cached = !options.fresh && !!existing && existing.expiresAt > Date.now();
+    const entry =
+      cached && existing ? existing : await this.load(key, customerExternalId, signalName);
+
+    const { entitlement } = entry;
+    const remaining =
+      entitlement.remaining === null ? null : Math.max(0, entitlement.remaining - entry.reserved);
+    const allowed = remaining === null || remaining >= quantity;
+
+    if (allowed && (options.reserve ?? this.options.reserve)) {
+      entry.reserved += quantity;
+    }
+
+    this.logger.debug(`Entitlement check ${allowed ? 'allowed' : 'denied'}`, {
+      customerExternalId,
+      signalName,
+      quantity,
+      remaining,
+      cached,
+    });
+
+    return {
+      allowed,
+      limit: entitlement.limit,
+      remaining,
+      resetAt: entitlement.resetAt,
+      cached,
+    };
+  }
+
+  /**
+   * Give back a quantity reserved by a check, e.g. when the action did not run
+   * @param customerExternalId - External ID of the customer
+   * @param signalName - Name of the signal
+   * @param quantity - Reserved quantity to give back
+   */
+  release(customerExternalId: string, signalName: string, quantity: number): void {
+    const entry = this.entries.get(this.keyFor(customerExternalId, signalName));
+    if (entry) {
+      entry.reserved = Math.max(0, entry.reserved - quantity);
+    }
+  }
+
+  /**
+   * Drop cached entitlements and their reservations
+   * @param customerExternalId - Only drop the entitlements of this customer
+   */
+  clearCache(customerExternalId?: string): void {
+    if (customerExternalId === undefined) {
+      this.entries.clear();
+      return;
+    }
+
+    for (const [key, entry] of this.entries) {
+      if (entry.entitlement.customerExternalId === customerExternalId) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  /**
+   * Fetch an entitlement and cache it, sharing the request between concurrent checks
+   * @param key - Cache key
+   * @param customerExternalId - External ID of the customer
+   * @param signalName - Name of the signal
+   * @returns Fresh cache entry
+   */
+  private load(
+    key: string,
+    customerExternalId: string,
+    signalName: string
+  ): Promise<EntitlementEntry> {
+    const pending = this.loading.get(key);
+    if (pending) {
+      return pending;
+    }
+
+    const loaded = this.get(customerExternalId, signalName)
+      .then((entitlement) => {
+        const entry = {
+          entitlement: { ...entitlement, customerExternalId, signalName },
+          expiresAt: Date.now() + this.options.cacheTtl,
+          reserved: 0,
+        };
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        if (this.entries.size > this.options.maxSize) {
+          this.entries.delete(this.entries.keys().next().value as string);
+        }
+        return entry;
+      })
+      .finally(() => {
+        this.loading.delete(key);
+      });
+
+    this.loading.set(key, loaded);
+    return loaded;
+  }
+
+  /**
+   * Validate the arguments of an entitlement check
+   * @param customerExternalId - External ID of the customer
+   * @param signalName - Name of the signal
+   * @param quantity - Quantity to check
+   * @throws RevMaxValidationError if any argument is invalid
+   */
+  private validateCheck(customerExternalId: string, signalName: string, quantity: number): void {
+    const errors: Record<string, string[]> = {};
+    if (typeof customerExternalId !== 'string' || customerExternalId.trim() === '') {
+      errors.customerExternalId = ['is required and must be a non-empty string'];
+    }
+    if (typeof signalName !== 'string' || signalName.trim() === '') {
+      errors.signalName = ['is required and must be a non-empty string'];
+    }
+    if (typeof quantity !== 'number' || !Number.isFinite(quantity) || quantity < 0) {
+      errors.quantity = ['must be a non-negative finite number'];
+    }
+
+    if (Object.keys(errors).length > 0) {
+      throw new RevMaxValidationError('Invalid entitlement check', errors);
+    }
+  }
+
+  /**
+   * Cache key of the entitlement of a customer to a signal
+   * @param customerExternalId - External ID of the customer
+   * @param signalName - Name of the signal
+   * @returns Cache key
+   */
+  private keyFor(customerExternalId: string, signalName: string): string {
+    return JSON.stringify([customerExternalId, signalName]);
+  }
+}
@@ -1,2 +1,12 @@
 export * from './customers';
 export * from './usage';
+export * from './agents';
+export * from './signals';
+export * from './plans';
+export * from './subscriptions';
+export * from './invoices';
+export * from './webhooks';
+export * from './entitlements';
+export * from './credits';
+export * from './apiKeys';
+export * from './organization';
@@ -0,0 +1,86 @@
+import { Readable } from 'stream';
+import { ApiClient } from '../utils/api';
+import { Logger } from '../utils/logger';
+import { iterateItems, iteratePages } from '../utils/pagination';
+import {
+  AutoPaginationOptions,
+  Invoice,
+  InvoiceDetails,
+  InvoiceListParams,
+  InvoiceListResponse,
+} from '../types';
+
+/**
+ * Invoice resource for reading the invoices generated from recorded usage
+ */
+export class Invoices {
+  private readonly client: ApiClient;
+  private readonly logger: Logger;
+  private readonly basePath: string = '/invoices';
+
+  /**
+   * Create a new invoice resource
+   * @param client - API client
+   * @param logger - Logger instance
+   */
+  constructor(client: ApiClient, logger: Logger) {
+    this.client = client;
+    this.logger = logger;
+  }
+
+  /**
+   * Get a specific invoice with its line items
+   * @param id - Invoice ID
+   * @returns Invoice data with line items
+   */
+  async get(id: string): Promise<InvoiceDetails> {
+    this.logger.info(`Retrieving invoice: ${id}`);
+    return this.client.get<InvoiceDetails>(`${this.basePath}/${id}`);
+  }
+
+  /**
+   * Download the PDF of an invoice
+   * @param id - Invoice ID
+   * @returns Readable stream of the PDF, e.g. to pipe into a file or an HTTP response
+   */
+  async downloadPdf(id: string): Promise<Readable> {
+    this.logger.info(`Downloading invoice PDF: ${id}`);
+    return this.client.getStream(`${this.basePath}/${id}/pdf`, 'application/pdf');
+  }
+
+  /**
+   * List invoices with pagination and filtering
+   * @param params - List parameters (customer, status and billing period)
+   * @returns Paginated list of invoices
+   */
+  async list(params: InvoiceListParams = {}): Promise<InvoiceListResponse> {
+    this.logger.info('Listing invoices', params);
+    return this.client.get<InvoiceListResponse>(this.basePath, params);
+  }
+
+  /**
+   * Iterate over every page of invoices matching the filters
+   * @param params - List parameters (page is the first page to fetch)
+   * @param options - Auto-pagination options
+   * @returns Async iterator over pages of invoices
+   */
+  listPages(
+    params: InvoiceListParams = {},
+    options?: AutoPaginationOptions
+  ): AsyncGenerator<InvoiceListResponse, void, undefined> {
+    return iteratePages((page) => this.list({ ...params, page }), params.page, options);
+  }
+
+  /**
+   * Iterate over every invoice matching the filters, fetching pages as needed
+   * @param params - List parameters (page is the first page to fetch)
+   * @param options - Auto-pagination options
+   * @returns Async iterator over invoices
+   */
+  listAll(
+    params: InvoiceListParams = {},
+    options?: AutoPaginationOptions
+  ): AsyncGenerator<Invoice, void, undefined> {
+    return iterateItems((page) => this.list({ ...params, page }), params.page, options);
+  }
+}
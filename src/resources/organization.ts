@@ -0,0 +1,49 @@
+import { ApiClient } from '../utils/api';
+import { Logger } from '../utils/logger';
+import { ApiKeys } from './apiKeys';
+import { Organization, OrganizationUpdateParams, RequestOptions } from '../types';
+
+/**
+ * Organization resource for reading and updating the settings of the API key's organization
+ */
+export class Organizations {
+  private readonly client: ApiClient;
+  private readonly logger: Logger;
+  private readonly basePath: string = '/organization';
+
+  /**
+   * API key management
+   */
+  public readonly apiKeys: ApiKeys;
+
+  /**
+   * Create a new organization resource
+   * @param client - API client
+   * @param logger - Logger instance
+   */
+  constructor(client: ApiClient, logger: Logger) {
+    this.client = client;
+    this.logger = logger;
+    this.apiKeys = new ApiKeys(client, logger);
+  }
+
+  /**
+   * Get the organization with its settings
+   * @returns Organization data
+   */
+  async get(): Promise<Organization> {
+    this.logger.info('Retrieving organization');
+    return this.client.get<Organization>(this.basePath);
+  }
+
+  /**
+   * Update the organization name or settings
+   * @param params - Organization update parameters
+   * @param options - Request options (e.g. idempotency key)
+   * @returns Updated organization
+   */
+  async update(params: OrganizationUpdateParams, options?: RequestOptions): Promise<Organization> {
+    this.logger.info('Updating organization', params);
+    return this.client.patch<Organization>(this.basePath, params, options);
+  }
+}
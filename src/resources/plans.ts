@@ -0,0 +1,69 @@
+import { ApiClient } from '../utils/api';
+import { Logger } from '../utils/logger';
+import { iterateItems, iteratePages } from '../utils/pagination';
+import { AutoPaginationOptions, Plan, PlanListParams, PlanListResponse } from '../types';
+
+/**
+ * Plan resource for reading pricing plans
+ */
+export class Plans {
+  private readonly client: ApiClient;
+  private readonly logger: Logger;
+  private readonly basePath: string = '/plans';
+
+  /**
+   * Create a new plan resource
+   * @param client - API client
+   * @param logger - Logger instance
+   */
+  constructor(client: ApiClient, logger: Logger) {
+    this.client = client;
+    this.logger = logger;
+  }
+
+  /**
+   * Get a specific plan by ID
+   * @param id - Plan ID
+   * @returns Plan data
+   */
+  async get(id: string): Promise<Plan> {
+    this.logger.info(`Retrieving plan: ${id}`);
+    return this.client.get<Plan>(`${this.basePath}/${id}`);
+  }
+
+  /**
+   * List pricing plans with pagination and filtering
+   * @param params - List parameters
+   * @returns Paginated list of plans
+   */
+  async list(params: PlanListParams = {}): Promise<PlanListResponse> {
+    this.logger.info('Listing plans', params);
+    return this.client.get<PlanListResponse>(this.basePath, params);
+  }
+
+  /**
+   * Iterate over every page of plans matching the filters
+   * @param params - List parameters (page is the first page to fetch)
+   * @param options - Auto-pagination options
+   * @returns Async iterator over pages of plans
+   */
+  listPages(
+    params: PlanListParams = {},
+    options?: AutoPaginationOptions
+  ): AsyncGenerator<PlanListResponse, void, undefined> {
+    return iteratePages((page) => this.list({ ...params, page }), params.page, options);
+  }
+
+  /**
+   * Iterate over every plan matching the filters, fetching pages as needed
+   * @param params - List parameters (page is the first page to fetch)
+   * @param options - Auto-pagination options
+   * @returns Async iterator over plans
+   */
+  listAll(
+    params: PlanListParams = {},
+    options?: AutoPaginationOptions
+  ): AsyncGenerator<Plan, void, undefined> {
+    return iterateItems((page) => this.list({ ...params, page }), params.page, options);
+  }
+}
@@ -0,0 +1,243 @@
+import { ApiClient } from '../utils/api';
+import { RevMaxValidationError } from '../utils/errors';
+import { Logger } from '../utils/logger';
+import { iterateItems, iteratePages } from '../utils/pagination';
+import { closestMatch } from '../utils/suggest';
+import {
+  AutoPaginationOptions,
+  RequestOptions,
+  Signal,
+  SignalCreateParams,
+  SignalListParams,
+  SignalListResponse,
+  SignalUpdateParams,
+  TrackEventParams,
+  UsageRecord,
+} from '../types';
+
+/**
+ * How long the registered signals are used to validate records before they are listed again
+ */
+const SIGNAL_REGISTRY_TTL = 5 * 60 * 1000;
+
+/**
+ * Minimum time between listing the signals again because a record used an unknown name
+ */
+const SIGNAL_REGISTRY_MIN_RELOAD_INTERVAL = 30 * 1000;
+
+/**
+ * Signal resource for defining the signals that usage is recorded for
+ */
+export class Signals {
+  private readonly client: ApiClient;
+  private readonly logger: Logger;
+  private readonly basePath: string = '/signals';
+  private registry: Promise<Map<string, Signal>> | null = null;
+  private registryLoadedAt: number = 0;
+  private lastRegistry: Map<string, Signal> | null = null;
+  private registryFailedAt: number = 0;
+
+  /**
+   * Create a new signal resource
+   * @param client - API client
+   * @param logger - Logger instance
+   */
+  constructor(client: ApiClient, logger: Logger) {
+    this.client = client;
+    this.logger = logger;
+  }
+
+  /**
+   * Define a new signal
+   * @param params - Signal creation parameters
+   * @param options - Request options (e.g. idempotency key)
+   * @returns Created signal
+   */
+  async create(params: SignalCreateParams, options?: RequestOptions): Promise<Signal> {
+    this.logger.info('Creating signal', params);
+    const signal = await this.client.post<Signal>(this.basePath, params, options);
+    this.clearRegistry();
+    return signal;
+  }
+
+  /**
+   * Get a specific signal by ID
+   * @param id - Signal ID
+   * @returns Signal data
+   */
+  async get(id: string): Promise<Signal> {
+    this.logger.info(`Retrieving signal: ${id}`);
+    return this.client.get<Signal>(`${this.basePath}/${id}`);
+  }
+
+  /**
+   * Update a signal
+   * @param id - Signal ID
+   * @param params - Signal update parameters
+   * @param options - Request options (e.g. idempotency key)
+   * @returns Updated signal
+   */
+  async update(id: string, params: SignalUpdateParams, options?: RequestOptions): Promise<Signal> {
+    this.logger.info(`Updating signal: ${id}`, params);
+    return this.client.patch<Signal>(`${this.basePath}/${id}`, params, options);
+  }
+
+  /**
+   * Delete a signal
+   * @param id - Signal ID
+   * @param options - Request options (e.g. idempotency key)
+   * @returns Void
+   */
+  async delete(id: string, options?: RequestOptions): Promise<void> {
+    this.logger.info(`Deleting signal: ${id}`);
+    await this.client.delete(`${this.basePath}/${id}`, options);
+    this.clearRegistry();
+  }
+
+  /**
+   * List signals with pagination and filtering
+   * @param params - List parameters
+   * @returns Paginated list of signals
+   */
+  async list(params: SignalListParams = {}): Promise<SignalListResponse> {
+    this.logger.info('Listing signals', params);
+    return this.client.get<SignalListResponse>(this.basePath, params);
+  }
+
+  /**
+   * Iterate over every page of signals matching the filters
+   * @param params - List parameters (page is the first page to fetch)
+   * @param options - Auto-pagination options
+   * @returns Async iterator over pages of signals
+   */
+  listPages(
+    params: SignalListParams = {},
+    options?: AutoPaginationOptions
+  ): AsyncGenerator<SignalListResponse, void, undefined> {
+    return iteratePages((page) => this.list({ ...params, page }), params.page, options);
+  }
+
+  /**
+   * Iterate over every signal matching the filters, fetching pages as needed
+   * @param params - List parameters (page is the first page to fetch)
+   * @param options - Auto-pagination options
+   * @returns Async iterator over signals
+   */
+  listAll(
+    params: SignalListParams = {},
+    options?: AutoPaginationOptions
+  ): AsyncGenerator<Signal, void, undefined> {
+    return iterateItems((page) => this.list({ ...params, page }), params.page, options);
+  }
+
+  /**
+   * Check that the signalName of usage records is a registered signal
+   *
+   * The registered signals are listed once and reused for five minutes, or until a signal
+   * is created or deleted through this resource. An unknown name lists them again first,
+   * at most every 30 seconds, in case the signal was defined elsewhere in the meantime.
+   *
+   * If the signals cannot be listed (e.g. during an outage), records are checked against the
+   * last signals that were listed, or sent unchecked with a warning if none were, so that
+   * billable usage is never dropped because the registry is unavailable.
+   *
+   * @param params - Event tracking parameters (single record or batch), as passed to trackEvent
+   * @throws RevMaxValidationError with errors keyed by field path (e.g. "records[3].signalName")
+   * and the closest registered name as a suggestion
+   */
+  async validateRecords(params: TrackEventParams): Promise<void> {
+    const isBatch = 'records' in params;
+    const records: UsageRecord[] = isBatch ? params.records : [params];
+
+    let signals = await this.loadRegistry();
+    if (!signals) return;
+
+    const hasUnknown = () => records.some((record) => !signals!.has(record.signalName));
+    if (hasUnknown() && Date.now() - this.registryLoadedAt >= SIGNAL_REGISTRY_MIN_RELOAD_INTERVAL) {
+      this.registry = null;
+      signals = (await this.loadRegistry()) || signals;
+    }
+
+    const errors: Record<string, string[]> = {};
+    records.forEach((record, index) => {
+      if (signals.has(record.signalName)) return;
+
+      const suggestion = closestMatch(record.signalName, signals.keys());
+      errors[isBatch ? `records[${index}].signalName` : 'signalName'] = [
+        suggestion
+          ? `unknown signal "${record.signalName}", did you mean "${suggestion}"?`
+          : `unknown signal "${record.signalName}"`,
+      ];
+    });
+
+    const count = Object.keys(errors).length;
+    if (count > 0) {
+      throw new RevMaxValidationError(
+        `Invalid usage ${isBatch ? 'records' : 'record'}: ${count} record(s) reference unknown signals`,
+        errors
+      );
+    }
+  }
+
+  /**
+   * Forget the registered signals used by validateRecords, so they are listed again
+   */
+  clearRegistry(): void {
+    this.registry = null;
+    this.registryLoadedAt = 0;
+    this.lastRegistry = null;
+  }
+
+  /**
+   * Get the registered signals for validation, falling back to the last listed ones
+   *
+   * After a failed listing, the fallback is used without listing again for 30 seconds, so
+   * tracking does not wait on a failing request every time.
+   *
+   * @returns Registered signals by name, or null if they have never been listed
+   */
+  private async loadRegistry(): Promise<Map<string, Signal> | null> {
+    if (Date.now() - this.registryFailedAt >= SIGNAL_REGISTRY_MIN_RELOAD_INTERVAL) {
+      try {
+        this.lastRegistry = await this.getRegistry();
+        return this.lastRegistry;
+      } catch (error) {
+        this.registryFailedAt = Date.now();
+        this.logger.warn('Could not list signals to validate usage records', { error });
+      }
+    }
+
+    if (!this.lastRegistry) {
+      this.logger.warn('Sending usage records without checking their signal names');
+    }
+    return this.lastRegistry;
+  }
+
+  /**
+   * Get the registered signals by name, listing them if needed
+   * @returns Registered signals by name
+   */
+  private getRegistry(): Promise<Map<string, Signal>> {
+    if (!this.registry || this.registryLoadedAt + SIGNAL_REGISTRY_TTL <= Date.now()) {
+      const registry = (async () => {
+        const signals = new Map<string, Signal>();
+        for await (const signal of this.listAll({ limit: 100 })) {
+          signals.set(signal.name, signal);
+        }
+        return signals;
+      })();
+      this.registry = registry;
+      this.registryLoadedAt = Date.now();
+
+      // List again next time if listing failed, keeping the last listed signals as a fallback
+      registry.catch(() => {
+        if (this.registry === registry) {
+          this.registry = null;
+          this.registryLoadedAt = 0;
+        }
+      });
+    }
+
+    return this.registry;
+  }
+}
@@ -0,0 +1,132 @@
+import { ApiClient } from '../utils/api';
+import { Logger } from '../utils/logger';
+import { iterateItems, iteratePages } from '../utils/pagination';
+import {
+  AutoPaginationOptions,
+  RequestOptions,
+  Subscription,
+  SubscriptionCancelParams,
+  SubscriptionChangePlanParams,
+  SubscriptionCreateParams,
+  SubscriptionListParams,
+  SubscriptionListResponse,
+  SubscriptionPeriod,
+} from '../types';
+
+/**
+ * Subscription resource for managing the plans customers are subscribed to
+ */
+export class Subscriptions {
+  private readonly client: ApiClient;
+  private readonly logger: Logger;
+  private readonly basePath: string = '/subscriptions';
+
+  /**
+   * Create a new subscription resource
+   * @param client - API client
+   * @param logger - Logger instance
+   */
+  constructor(client: ApiClient, logger: Logger) {
+    this.client = client;
+    this.logger = logger;
+  }
+
+  /**
+   * Subscribe a customer to a plan
+   * @param params - Subscription parameters (the customer by ID or external ID, and the plan)
+   * @param options - Request options (e.g. idempotency key)
+   * @returns Created subscription
+   */
+  async create(params: SubscriptionCreateParams, options?: RequestOptions): Promise<Subscription> {
+    this.logger.info('Creating subscription', params);
+    return this.client.post<Subscription>(this.basePath, params, options);
+  }
+
+  /**
+   * Get a specific subscription by ID
+   * @param id - Subscription ID
+   * @returns Subscription data
+   */
+  async get(id: string): Promise<Subscription> {
+    this.logger.info(`Retrieving subscription: ${id}`);
+    return this.client.get<Subscription>(`${this.basePath}/${id}`);
+  }
+
+  /**
+   * Move a subscription to another plan
+   * @param id - Subscription ID
+   * @param params - New plan, proration behavior and when the change takes effect
+   * @param options - Request options (e.g. idempotency key)
+   * @returns Updated subscription
+   */
+  async changePlan(
+    id: string,
+    params: SubscriptionChangePlanParams,
+    options?: RequestOptions
+  ): Promise<Subscription> {
+    this.logger.info(`Changing plan of subscription: ${id}`, params);
+    return this.client.post<Subscription>(`${this.basePath}/${id}/change-plan`, params, options);
+  }
+
+  /**
+   * Cancel a subscription, right away or at the end of the current period
+   * @param id - Subscription ID
+   * @param params - Cancellation parameters
+   * @param options - Request options (e.g. idempotency key)
+   * @returns Canceled subscription
+   */
+  async cancel(
+    id: string,
+    params: SubscriptionCancelParams = {},
+    options?: RequestOptions
+  ): Promise<Subscription> {
+    this.logger.info(`Canceling subscription: ${id}`, params);
+    return this.client.post<Subscription>(`${this.basePath}/${id}/cancel`, params, options);
+  }
+
+  /**
+   * Get the current billing period of a subscription
+   * @param id - Subscription ID
+   * @returns Start and end of the current period
+   */
+  async getCurrentPeriod(id: string): Promise<SubscriptionPeriod> {
+    this.logger.info(`Retrieving current period of subscription: ${id}`);
+    return this.client.get<SubscriptionPeriod>(`${this.basePath}/${id}/current-period`);
+  }
+
+  /**
+   * List subscriptions with pagination and filtering
+   * @param params - List parameters
+   * @returns Paginated list of subscriptions
+   */
+  async list(params: SubscriptionListParams = {}): Promise<SubscriptionListResponse> {
+    this.logger.info('Listing subscriptions', params);
+    return this.client.get<SubscriptionListResponse>(this.basePath, params);
+  }
+
+  /**
+   * Iterate over every page of subscriptions matching the filters
+   * @param params - List parameters (page is the first page to fetch)
+   * @param options - Auto-pagination options
+   * @returns Async iterator over pages of subscriptions
+   */
+  listPages(
+    params: SubscriptionListParams = {},
+    options?: AutoPaginationOptions
+  ): AsyncGenerator<SubscriptionListResponse, void, undefined> {
+    return iteratePages((page) => this.list({ ...params, page }), params.page, options);
+  }
+
+  /**
+   * Iterate over every subscription matching the filters, fetching pages as needed
+   * @param params - List parameters (page is the first page to fetch)
+   * @param options - Auto-pagination options
+   * @returns Async iterator over subscriptions
+   */
+  listAll(
+    params: SubscriptionListParams = {},
+    options?: AutoPaginationOptions
+  ): AsyncGenerator<Subscription, void, undefined> {
+    return iterateItems((page) => this.list({ ...params, page }), params.page, options);
+  }
+}
@@ -1,7 +1,39 @@
+import { v4 as uuidv4 } from "uuid";
 import { ApiClient } from "../utils/api";
 import { Logger } from "../utils/logger";
+import { EventBatcher, buildBatchResponse } from "../utils/batcher";
+import { UsageSpool } from "../utils/spool";
+import { BatchRetrier } from "../utils/batchRetry";
+import { validateUsageRecords } from "../utils/validation";
+import { ChunkedUploader } from "../utils/chunking";
+import { UsageAggregator } from "../utils/aggregator";
+import { iterateItems, iteratePages } from "../utils/pagination";
+import { CustomerAutoCreator } from "../utils/autoCreate";
+import { Customers } from "./customers";
+import { Signals } from "./signals";
+import { Credits } from "./credits";
 import {
+  DEFAULT_LLM_PRICES,
+  buildLlmRecord,
+  estimateLlmCost,
+} from "../utils/pricing";
+import {
+  AutoPaginationOptions,
   BatchEventResponse,
+  BatchEventResult,
+  ClientOptions,
+  LlmCallParams,
+  LlmCostEstimate,
+  LlmPriceTable,
+  Metadata,
+  RecordedUsage,
+  RequestOptions,
+  SpoolStats,
+  TrackEventOptions,
+  UsageListParams,
+  UsageListResponse,
+  UsageSummaryParams,
+  UsageSummaryResponse,
   TrackEventParams,
   TrackEventResponse,
   SingleEventResponse,
@@ -11,44 +43,174 @@ import {
 /**
  * Usage resource for tracking usage
  */
-export class Usage {
+export class Usage<M extends Metadata = Metadata> {
   private readonly client: ApiClient;
   private readonly logger: Logger;
   private readonly basePath: string = "/usage";
+  private readonly batcher: EventBatcher | null = null;
+  private readonly spool: UsageSpool | null = null;
+  private readonly retrier: BatchRetrier | null = null;
+  private readonly uploader: ChunkedUploader;
+  private readonly llmPrices: LlmPriceTable;
+  private readonly aggregator: UsageAggregator | null = null;
+  private readonly autoCreator: CustomerAutoCreator | null = null;
+  private readonly signals: Signals | null = null;
+  private readonly credits: Credits | null = null;
 
   /**
    * Create a new usage resource
    * @param client - API client
    * @param logger - Logger instance
+   * @param options - Client options
+   * @param customers - Customer resource used to create unknown customers
+   * @param signals - Signal resource used to check signal names in strict mode
+   * @param credits - Credit resource notified of the balances reported for records
    */
-  constructor(client: ApiClient, logger: Logger) {
+  constructor(
+    client: ApiClient,
+    logger: Logger,
+    options: ClientOptions = {},
+    customers?: Customers,
+    signals?: Signals,
+    credits?: Credits
+  ) {
     this.client = client;
     this.logger = logger;
+
+    if (options.credits?.onLowBalance) {
+      this.credits = credits || new Credits(client, logger, options);
+    }
+
+    if (options.strictSignals) {
+      this.signals = signals || new Signals(client, logger);
+    }
+
+    if (options.autoCreateCustomers?.enabled) {
+      const customerResource = customers || new Customers(client, logger, options);
+      this.autoCreator = new CustomerAutoCreator(
+        options.autoCreateCustomers,
+        (records, requestOptions) => this.postRecords(records, requestOptions),
+        (externalId, params) => customerResource.ensure(externalId, params),
+        logger
+      );
+    }
+
+    if (options.batchRetry?.enabled) {
+      this.retrier = new BatchRetrier(
+        options.batchRetry,
+        (records, requestOptions) => this.submitRecords(records, requestOptions),
+        logger
+      );
+    }
+
+    if (options.spool?.enabled) {
+      this.spool = new UsageSpool(
+        options.spool,
+        (records, requestOptions) =>
+          this.deliverRecords(records, requestOptions),
+        logger
+      );
+    }
+
+    this.llmPrices = { ...DEFAULT_LLM_PRICES, ...options.llmPricing };
+
+    this.uploader = new ChunkedUploader(
+      options.chunking || {},
+      (records, requestOptions) => this.sendRecords(records, requestOptions),
+      logger
+    );
+
+    if (options.aggregation?.enabled) {
+      this.aggregator = new UsageAggregator(
+        options.aggregation,
+        (records) => this.uploader.upload(records),
+        logger
+      );
+    }
+
+    if (options.batching?.enabled) {
+      this.batcher = new EventBatcher(
+        options.batching,
+        (records) => this.sendRecords(records),
+        logger
+      );
+    }
   }
 
   /**
    * Track events for a customer - supports both single record and batch operations
+   * When batching is enabled, records are queued and the promise settles once their batch is sent
+   * When batch retry is enabled, a batch whose records still fail after resending throws RevMaxPartialBatchError
+   * Large batches are uploaded in concurrent chunks and merged back in the original order
+   * When aggregation is enabled, single records are summed per customer, agent and signal
+   * and the promise settles once the aggregated record is sent
+   * In strict signal mode, records are checked against the registered signals first
+   * @throws RevMaxValidationError if a record is invalid (no request is made)
+   * @throws RevMaxSpooledError if delivery failed but the records were kept in the spool for replay
    * @param params - Event tracking parameters (single record or batch)
+   * @param options - Track event options; the idempotency key also applies to a single record,
+   * and to each record of a batch without its own key as `<key>:<index>`
    * @returns Tracked event data
    */
-  async trackEvent(params: TrackEventParams): Promise<TrackEventResponse> {
+  async trackEvent(
+    params: TrackEventParams<M>,
+    options?: TrackEventOptions
+  ): Promise<TrackEventResponse> {
     // Check if this is a single record or a batch operation
     if ("records" in params) {
-      // This is a batch operation
+      // This is a batch operation - validate every record before anything is sent
+      validateUsageRecords(params.records, true);
+      if (this.signals) {
+        await this.signals.validateRecords(params);
+      }
+
       this.logger.info(
         `Recording batch usage for ${params.records.length} records`
       );
 
       // Format any Date objects in the records to ISO strings
-      const formattedRecords = params.records.map((record) =>
-        this.formatRecord(record)
+      // The batch idempotency key also keys each record that has none, so replaying the batch
+      // with the same key never records them twice, even after resends or spool replays
+      const batchKey = options?.idempotencyKey;
+      const formattedRecords = params.records.map((record, index) =>
+        this.formatRecord(
+          batchKey && !record.idempotencyKey
+            ? { ...record, idempotencyKey: `${batchKey}:${index}` }
+            : record
+        )
       );
 
-      return this.client.post<BatchEventResponse>(`${this.basePath}/record`, {
-        records: formattedRecords,
-      });
+      let response: BatchEventResponse;
+      if (this.batcher) {
+        const batcher = this.batcher;
+        const results = await Promise.all(
+          formattedRecords.map((record) => this.queueRecord(batcher, record))
+        );
+        response = buildBatchResponse(results);
+        options?.onProgress?.({
+          completedChunks: 1,
+          totalChunks: 1,
+          completedRecords: formattedRecords.length,
+          totalRecords: formattedRecords.length,
+          failedRecords: response.failureCount,
+        });
+      } else {
+        response = await this.uploader.upload(formattedRecords, options);
+      }
+
+      // Report the records that still failed after retryable ones were resent
+      if (this.retrier) {
+        this.retrier.assertSucceeded(formattedRecords, response);
+      }
+
+      return response;
     } else {
-      // This is a single record - convert it to the batch format
+      // This is a single record - validate it and convert it to the batch format
+      validateUsageRecords([params], false);
+      if (this.signals) {
+        await this.signals.validateRecords(params);
+      }
+
       this.logger.info("Recording usage", {
         agent: params.agentId,
         customer: params.customerExternalId,
@@ -56,16 +218,25 @@ export class Usage {
         quantity: params.quantity,
       });
 
-      // Format the record
-      const formattedRecord = this.formatRecord(params);
+      // Format the record, keying it with the caller's idempotency key if given
+      const keyedRecord = {
+        ...params,
+        idempotencyKey: params.idempotencyKey || options?.idempotencyKey,
+      };
+      const formattedRecord = this.formatRecord(keyedRecord);
 
-      // Submit as a batch with one record
-      const response = await this.client.post<BatchEventResponse>(
-        `${this.basePath}/record`,
-        {
-          records: [formattedRecord],
-        }
-      );
+      // Submit as a batch with one record, summed with similar records first when aggregating
+      // Records keyed by the caller are not aggregated, so replaying them stays safe
+      let response: BatchEventResponse;
+      if (this.aggregator && this.aggregator.accepts(keyedRecord)) {
+        response = buildBatchResponse([await this.aggregator.add(formattedRecord)]);
+      } else if (this.batcher) {
+        response = buildBatchResponse([
+          await this.queueRecord(this.batcher, formattedRecord),
+        ]);
+      } else {
+        response = await this.sendRecords([formattedRecord], options);
+      }
 
       // If it's a batch response but only contains one record, extract and return the single result for backward compatibility
       if (
@@ -81,8 +252,266 @@ export class Usage {
     }
   }
 
+  /**
+   * Track an LLM call, recording one usageCost entry per token component
+   * and the locally estimated cost when the model has a price
+   * @param params - LLM call parameters
+   * @param options - Track event options
+   * @returns Tracked event data
+   */
+  async trackLlmCall(
+    params: LlmCallParams,
+    options?: TrackEventOptions
+  ): Promise<TrackEventResponse> {
+    if (!this.llmPrices[params.model]) {
+      this.logger.warn(
+        `No price configured for model ${params.model}, tracking without estimated cost`
+      );
+    }
+
+    // LLM records carry SDK-defined metadata (usageCost, model) next to the caller's
+    const record = buildLlmRecord(params, this.llmPrices) as UsageRecord<M>;
+    return this.trackEvent(record, options);
+  }
+
+  /**
+   * Estimate the cost of an LLM call from the configured price table
+   * @param params - LLM call parameters
+   * @returns Cost estimate in USD, or undefined if the model has no price
+   */
+  estimateLlmCost(params: LlmCallParams): LlmCostEstimate | undefined {
+    return estimateLlmCost(params, this.llmPrices);
+  }
+
+  /**
+   * List recorded usage with pagination and filtering
+   * @param params - List parameters (customer, agent, signal and date range)
+   * @returns Paginated list of recorded usage
+   */
+  async list(params: UsageListParams = {}): Promise<UsageListResponse> {
+    this.logger.info("Listing usage records", params);
+    return this.client.get<UsageListResponse>(
+      this.basePath,
+      this.formatDateRange(params)
+    );
+  }
+
+  /**
+   * Iterate over every page of recorded usage matching the filters
+   * @param params - List parameters (page is the first page to fetch)
+   * @param options - Auto-pagination options
+   * @returns Async iterator over pages of recorded usage
+   */
+  listPages(
+    params: UsageListParams = {},
+    options?: AutoPaginationOptions
+  ): AsyncGenerator<UsageListResponse, void, undefined> {
+    return iteratePages(
+      (page) => this.list({ ...params, page }),
+      params.page,
+      options
+    );
+  }
+
+  /**
+   * Iterate over every recorded usage record matching the filters, fetching pages as needed
+   * @param params - List parameters (page is the first page to fetch)
+   * @param options - Auto-pagination options
+   * @returns Async iterator over recorded usage
+   */
+  listAll(
+    params: UsageListParams = {},
+    options?: AutoPaginationOptions
+  ): AsyncGenerator<RecordedUsage, void, undefined> {
+    return iterateItems(
+      (page) => this.list({ ...params, page }),
+      params.page,
+      options
+    );
+  }
+
+  /**
+   * Summarize recorded usage, with quantities grouped by signal and by day or month
+   * @param params - Summary parameters (filters, date range and grouping period)
+   * @returns Usage quantities per signal and period
+   */
+  async summary(params: UsageSummaryParams = {}): Promise<UsageSummaryResponse> {
+    this.logger.info("Summarizing usage", params);
+    return this.client.get<UsageSummaryResponse>(
+      `${this.basePath}/summary`,
+      this.formatDateRange({ groupBy: "day", ...params })
+    );
+  }
+
+  /**
+   * Send all aggregated and buffered records immediately
+   * Does nothing when aggregation and batching are disabled
+   * @returns Promise resolving once the buffered records have been sent
+   */
+  async flush(): Promise<void> {
+    if (this.aggregator) {
+      await this.aggregator.flush();
+    }
+    if (this.batcher) {
+      await this.batcher.flush();
+    }
+  }
+
+  /**
+   * Stop background work and send any buffered records
+   * @returns Promise resolving once everything has been sent
+   */
+  async shutdown(): Promise<void> {
+    if (this.aggregator) {
+      await this.aggregator.shutdown();
+    }
+    if (this.batcher) {
+      await this.batcher.shutdown();
+    }
+    if (this.spool) {
+      this.spool.shutdown();
+    }
+  }
+
+  /**
+   * Replay records kept in the on-disk spool after delivery failures
+   * Replay also runs in the background on the configured interval
+   * @returns Number of records removed from the spool
+   */
+  async replaySpool(): Promise<number> {
+    return this.spool ? this.spool.replay() : 0;
+  }
+
+  /**
+   * Get the backlog of the on-disk spool
+   * @returns Number of pending records and the oldest pending record
+   */
+  getSpoolStats(): SpoolStats {
+    return this.spool ? this.spool.getStats() : { size: 0 };
+  }
+
+  /**
+   * Queue a formatted record for batching, writing it to the spool right away when it is enabled
+   * so that a crash before the next flush does not lose it
+   * @param batcher - Event batcher
+   * @param record - Formatted record
+   * @returns Result entry of the record once its batch is sent
+   */
+  private async queueRecord(
+    batcher: EventBatcher,
+    record: UsageRecord
+  ): Promise<BatchEventResult> {
+    if (!this.spool) {
+      return batcher.add(record);
+    }
+
+    this.spool.enqueue([record]);
+    try {
+      return await batcher.add(record);
+    } catch (error) {
+      // Records that never reached the spool writer, e.g. because the batcher was shut down
+      this.spool.release([record]);
+      throw error;
+    }
+  }
+
+  /**
+   * Send formatted records, writing them to the spool first when it is enabled
+   * @param records - Records to send
+   * @param options - Request options
+   * @returns Batch response from the API
+   */
+  private async sendRecords(
+    records: UsageRecord[],
+    options?: RequestOptions
+  ): Promise<BatchEventResponse> {
+    return this.spool
+      ? this.spool.write(records, options)
+      : this.deliverRecords(records, options);
+  }
+
+  /**
+   * Send formatted records, resending retryable record failures when batch retry is enabled
+   * @param records - Records to send
+   * @param options - Request options
+   * @returns Batch response with results in the original record order
+   */
+  private async deliverRecords(
+    records: UsageRecord[],
+    options?: RequestOptions
+  ): Promise<BatchEventResponse> {
+    return this.retrier
+      ? this.retrier.deliver(records, options)
+      : this.submitRecords(records, options);
+  }
+
+  /**
+   * Send formatted records, creating unknown customers and resending their records
+   * when auto-creation is enabled
+   * @param records - Records to send
+   * @param options - Request options
+   * @returns Batch response with results in the original record order
+   */
+  private async submitRecords(
+    records: UsageRecord[],
+    options?: RequestOptions
+  ): Promise<BatchEventResponse> {
+    return this.autoCreator
+      ? this.autoCreator.deliver(records, options)
+      : this.postRecords(records, options);
+  }
+
+  /**
+   * Send formatted records to the API in a single request
+   * Credit balances reported for the records are checked against the low-balance threshold
+   * @param records - Records to send
+   * @param options - Request options
+   * @returns Batch response from the API
+   */
+  private async postRecords(
+    records: UsageRecord[],
+    options?: RequestOptions
+  ): Promise<BatchEventResponse> {
+    const response = await this.client.post<BatchEventResponse>(
+      `${this.basePath}/record`,
+      { records },
+      options
+    );
+
+    if (this.credits && response.results) {
+      const credits = this.credits;
+      response.results.forEach((result, index) => {
+        const balance = result.responseData?.creditBalance;
+        if (typeof balance === "number" && records[index]) {
+          credits.observeBalance(records[index].customerExternalId, balance);
+        }
+      });
+    }
+
+    return response;
+  }
+
+  /**
+   * Convert the Date objects of a date range filter to ISO strings
+   * @param params - Query parameters with an optional startDate and endDate
+   * @returns The formatted query parameters
+   */
+  private formatDateRange<T extends { startDate?: string | Date; endDate?: string | Date }>(
+    params: T
+  ): T {
+    const formattedParams = { ...params };
+    if (formattedParams.startDate instanceof Date) {
+      formattedParams.startDate = formattedParams.startDate.toISOString();
+    }
+    if (formattedParams.endDate instanceof Date) {
+      formattedParams.endDate = formattedParams.endDate.toISOString();
+    }
+    return formattedParams;
+  }
+
   /**
    * Format a usage record, converting Date objects to ISO strings
+   * and assigning an idempotency key that stays with the record through retries and replays
    * @param record - The usage record to format
    * @returns The formatted record
    */
@@ -91,6 +520,9 @@ export class Usage {
     if (formattedRecord.usageDate instanceof Date) {
       formattedRecord.usageDate = formattedRecord.usageDate.toISOString();
     }
+    if (!formattedRecord.idempotencyKey) {
+      formattedRecord.idempotencyKey = uuidv4();
+    }
     return formattedRecord;
   }
 }
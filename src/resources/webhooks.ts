@@ -0,0 +1,240 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { IncomingMessage, ServerResponse } from 'http';
+import { RevMaxError, RevMaxSignatureVerificationError } from '../utils/errors';
+import { Logger } from '../utils/logger';
+import { WebhookEvent, WebhookVerifyOptions } from '../types';
+
+/**
+ * Header carrying the signature of webhook requests
+ */
+export const WEBHOOK_SIGNATURE_HEADER = 'revmax-signature';
+
+/**
+ * Default maximum age of a webhook signature in seconds
+ */
+const DEFAULT_TOLERANCE = 300;
+
+/**
+ * Request as seen by webhook middleware; Express requests may carry a raw body already
+ */
+type WebhookRequest = IncomingMessage & { body?: unknown; revmaxEvent?: WebhookEvent };
+
+/**
+ * Read the raw body of a request, unless a body parser already did
+ * @param req - Incoming request
+ * @returns Raw request body
+ * @throws RevMaxError if a body parser already turned the body into an object
+ */
+async function readRawBody(req: WebhookRequest): Promise<Buffer | string> {
+  if (Buffer.isBuffer(req.body) || typeof req.body === 'string') {
+    return req.body;
+  }
+  if (req.body !== undefined) {
+    throw new RevMaxError(
+      'Webhook body was already parsed; mount the middleware before JSON body parsers or use express.raw()'
+    );
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Webhook helper for verifying and parsing RevMax webhook events
+ */
+export class Webhooks {
+  private readonly logger: Logger;
+
+  /**
+   * Create a new webhook helper
+   * @param logger - Logger instance
+   */
+  constructor(logger: Logger = new Logger()) {
+    this.logger = logger;
+  }
+
+  /**
+   * Verify the signature of a webhook and parse its event
+   *
+   * The signature header has the form `t=<unix seconds>,v1=<hex HMAC-SHA256>`, where the HMAC
+   * is computed over `<t>.<raw body>` with the webhook secret. Several v1 signatures may be
+   * present while a secret is being rotated.
+   *
+   * @param rawBody - Raw request body, exactly as received
+   * @param signatureHeader - Value of the revmax-signature header
+   * @param secret - Webhook signing secret
+   * @param options - Verification options
+   * @returns Typed webhook event
+   * @throws RevMaxSignatureVerificationError if the header is missing or malformed, the
+   * signature does not match or the timestamp is outside the tolerance
+   */
+  constructEvent(
+    rawBody: string | Buffer,
+    signatureHeader: string | string[] | undefined,
+    secret: string,
+    options: WebhookVerifyOptions = {}
+  ): WebhookEvent {
+    const header = Array.isArray(signatureHeader) ? signatureHeader[0] : signatureHeader;
+    if (!header) {
+      throw new RevMaxSignatureVerificationError('Missing webhook signature header');
+    }
+
+    let timestamp = NaN;
+    const signatures: string[] = [];
+    for (const part of header.split(',')) {
+      const [key, value] = part.trim().split('=', 2);
+      if (key === 't') timestamp = Number(value);
+      if (key === 'v1' && value) signatures.push(value);
+    }
+    if (!Number.isInteger(timestamp) || signatures.length === 0) {
+      throw new RevMaxSignatureVerificationError('Malformed webhook signature header', {
+        header,
+      });
+    }
+
+    const expected = Buffer.from(this.computeSignature(rawBody, timestamp, secret), 'hex');
+    const matches = signatures.some((signature) => {
+      const actual = Buffer.from(signature, 'hex');
+      return actual.length === expected.length && timingSafeEqual(actual, expected);
+    });
+    if (!matches) {
+      throw new RevMaxSignatureVerificationError(
+        'Webhook signature does not match the payload; check the secret and that the raw body is used',
+        { timestamp }
+      );
+    }
+
+    const tolerance = options.tolerance ?? DEFAULT_TOLERANCE;
+    const age = Math.floor(Date.now() / 1000) - timestamp;
+    if (tolerance > 0 && Math.abs(age) > tolerance) {
+      throw new RevMaxSignatureVerificationError(
+        `Webhook timestamp is outside the tolerance of ${tolerance} seconds`,
+        { timestamp, age }
+      );
+    }
+
+    // Decode only once the signature over the raw bytes has been verified
+    const payload = Buffer.isBuffer(rawBody) ? rawBody.toString('utf8') : rawBody;
+    try {
+      return JSON.parse(payload) as WebhookEvent;
+    } catch (error: any) {
+      throw new RevMaxError(`Invalid webhook payload: ${error.message}`);
+    }
+  }
+
+  /**
+   * Build a signature header for a payload, e.g. to test webhook handlers
+   * @param payload - Raw request body
+   * @param secret - Webhook signing secret
+   * @param timestamp - Signature time in unix seconds (defaults to now)
+   * @returns Value for the revmax-signature header
+   */
+  generateSignatureHeader(
+    payload: string | Buffer,
+    secret: string,
+    timestamp: number = Math.floor(Date.now() / 1000)
+  ): string {
+    return `t=${timestamp},v1=${this.computeSignature(payload, timestamp, secret)}`;
+  }
+
+  /**
+   * Create Express middleware that verifies webhooks and sets req.revmaxEvent
+   *
+   * Mount it before any JSON body parser (or after express.raw()), since the signature is
+   * computed over the raw body. Requests that fail verification get a 400 response.
+   *
+   * @param secret - Webhook signing secret
+   * @param options - Verification options
+   * @returns Express middleware
+   */
+  middleware(
+    secret: string,
+    options: WebhookVerifyOptions = {}
+  ): (req: WebhookRequest, res: ServerResponse, next: (error?: unknown) => void) => void {
+    return (req, res, next) => {
+      readRawBody(req)
+        .then((rawBody) => {
+          req.revmaxEvent = this.constructEvent(
+            rawBody,
+            req.headers[WEBHOOK_SIGNATURE_HEADER],
+            secret,
+            options
+          );
+          next();
+        })
+        .catch((error) => {
+          if (!(error instanceof RevMaxSignatureVerificationError)) {
+            next(error);
+            return;
+          }
+
+          this.logger.warn(`Rejected webhook: ${error.message}`);
+          res.statusCode = 400;
+          res.end(error.message);
+        });
+    };
+  }
+
+  /**
+   * Create a request listener for a plain Node http server that verifies webhooks
+   *
+   * Responds with 200 once the handler resolves, 400 if verification fails and 500 if the
+   * handler throws, so RevMax retries the delivery.
+   *
+   * @param secret - Webhook signing secret
+   * @param handler - Function handling each verified event
+   * @param options - Verification options
+   * @returns Request listener for http.createServer
+   */
+  createHandler(
+    secret: string,
+    handler: (event: WebhookEvent) => void | Promise<void>,
+    options: WebhookVerifyOptions = {}
+  ): (req: IncomingMessage, res: ServerResponse) => void {
+    return (req, res) => {
+      readRawBody(req)
+        .then(async (rawBody) => {
+          const event = this.constructEvent(
+            rawBody,
+            req.headers[WEBHOOK_SIGNATURE_HEADER],
+            secret,
+            options
+          );
+          await handler(event);
+          res.statusCode = 200;
+          res.end();
+        })
+        .catch((error) => {
+          if (error instanceof RevMaxSignatureVerificationError) {
+            this.logger.warn(`Rejected webhook: ${error.message}`);
+            res.statusCode = 400;
+            res.end(error.message);
+            return;
+          }
+
+          this.logger.error('Webhook handler failed', { error });
+          res.statusCode = 500;
+          res.end();
+        });
+    };
+  }
+
+  /**
+   * Compute the HMAC-SHA256 signature of a payload over its raw bytes
+   * @param payload - Raw request body
+   * @param timestamp - Signature time in unix seconds
+   * @param secret - Webhook signing secret
+   * @returns Hex-encoded signature
+   */
+  private computeSignature(payload: string | Buffer, timestamp: number, secret: string): string {
+    return createHmac('sha256', secret).update(`${timestamp}.`).update(payload).digest('hex');
+  }
+}
+
+/**
+ * Shared webhook helper for verifying webhooks without creating a client
+ */
+export const webhooks = new Webhooks();
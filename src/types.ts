@@ -1,4 +1,120 @@
 import { TelemetryOptions } from "./utils/telemetry";
+import { PaginatedResponse, PaginationParams } from "./types/common";
+import { CustomerStatus } from "./types/customer";
+import { LowBalanceEvent } from "./types/credit";
+export {
+  ApiKey,
+  ApiKeyCreateParams,
+  ApiKeyListParams,
+  ApiKeyListResponse,
+  ApiKeyScope,
+  CreatedApiKey,
+  Organization,
+  OrganizationBillingSettings,
+  OrganizationSettings,
+  OrganizationUpdateParams,
+} from "./types/organization";
+export {
+  Agent,
+  AgentStatus,
+  AgentCreateParams,
+  AgentUpdateParams,
+  AgentListParams,
+  AgentListResponse,
+} from "./types/agent";
+export {
+  Signal,
+  SignalAggregation,
+  SignalCreateParams,
+  SignalUpdateParams,
+  SignalListParams,
+  SignalListResponse,
+} from "./types/signal";
+export {
+  Plan,
+  PlanInterval,
+  PlanPrice,
+  PlanStatus,
+  PlanListParams,
+  PlanListResponse,
+} from "./types/plan";
+export {
+  ProrationBehavior,
+  Subscription,
+  SubscriptionStatus,
+  SubscriptionCreateParams,
+  SubscriptionChangePlanParams,
+  SubscriptionCancelParams,
+  SubscriptionPeriod,
+  SubscriptionListParams,
+  SubscriptionListResponse,
+} from "./types/subscription";
+export {
+  Invoice,
+  InvoiceDetails,
+  InvoiceLineItem,
+  InvoiceStatus,
+  InvoiceListParams,
+  InvoiceListResponse,
+} from "./types/invoice";
+export {
+  InvoiceFinalizedEvent,
+  InvoicePaidEvent,
+  InvoicePaymentFailedEvent,
+  QuotaExceededData,
+  QuotaExceededEvent,
+  SubscriptionCanceledEvent,
+  SubscriptionCreatedEvent,
+  SubscriptionUpdatedEvent,
+  WebhookEvent,
+  WebhookEventType,
+  WebhookVerifyOptions,
+} from "./types/webhook";
+export {
+  Entitlement,
+  EntitlementCheckOptions,
+  EntitlementCheckResult,
+} from "./types/entitlement";
+export {
+  CreditBalance,
+  CreditExpireParams,
+  CreditGrant,
+  CreditGrantParams,
+  CreditLedgerEntry,
+  CreditLedgerEntryType,
+  CreditLedgerListParams,
+  CreditLedgerListResponse,
+  LowBalanceEvent,
+} from "./types/credit";
+
+export {
+  AutoPaginationOptions,
+  PaginatedResponse,
+  PaginationParams,
+} from "./types/common";
+export {
+  UsageRecord as RecordedUsage,
+  UsageListParams,
+  UsageListResponse,
+  UsageSummaryPeriod,
+  UsageSummaryParams,
+  UsageSummaryEntry,
+  UsageSummaryResponse,
+} from "./types/usage";
+export {
+  CustomerStatus,
+  CustomerStatusChange,
+  CustomerStatusChangeParams,
+  CustomerStatusHistoryParams,
+  CustomerStatusHistoryResponse,
+} from "./types/customer";
+
+/**
+ * Shape of customer and usage record metadata
+ *
+ * Pass your own metadata type to RevMaxClient to type-check metadata end to end.
+ */
+export type Metadata = Record<string, any>;
 
 /**
  * Client configuration options
@@ -38,6 +154,332 @@ export interface ClientOptions {
    * Telemetry configuration for performance tracking
    */
   telemetry?: TelemetryOptions;
+
+  /**
+   * Background batching configuration for usage events
+   */
+  batching?: BatchingOptions;
+
+  /**
+   * On-disk spool configuration for usage events that could not be delivered
+   */
+  spool?: SpoolOptions;
+
+  /**
+   * Automatic resending of the failed records of a batch
+   */
+  batchRetry?: BatchRetryOptions;
+
+  /**
+   * Splitting of large usage batches into concurrently uploaded chunks
+   */
+  chunking?: ChunkingOptions;
+
+  /**
+   * LLM prices per model, merged over the built-in price table
+   */
+  llmPricing?: LlmPriceTable;
+
+  /**
+   * Local pre-aggregation of usage events before they are sent
+   */
+  aggregation?: AggregationOptions;
+
+  /**
+   * In-memory cache of customers read by ID or external ID
+   */
+  customerCache?: CustomerCacheOptions;
+
+  /**
+   * Automatic creation of customers that usage records reference but that do not exist yet
+   */
+  autoCreateCustomers?: AutoCreateCustomersOptions;
+
+  /**
+   * Reject usage records whose signalName is not a registered signal, before they are sent
+   */
+  strictSignals?: boolean;
+
+  /**
+   * Local caching and reservation of entitlement checks
+   */
+  entitlements?: EntitlementOptions;
+
+  /**
+   * Low-balance notification for customers with prepaid credits
+   */
+  credits?: CreditOptions;
+}
+
+/**
+ * Background batching configuration options
+ */
+export interface BatchingOptions {
+  /**
+   * Whether usage events are buffered and sent in the background
+   */
+  enabled?: boolean;
+
+  /**
+   * Maximum number of records sent in one request (a flush is triggered when reached)
+   */
+  maxBatchSize?: number;
+
+  /**
+   * Interval in milliseconds between background flushes
+   */
+  flushInterval?: number;
+}
+
+/**
+ * Configuration for resending the failed records of a batch
+ */
+export interface BatchRetryOptions {
+  /**
+   * Whether retryable record failures are resent automatically
+   */
+  enabled?: boolean;
+
+  /**
+   * Maximum number of attempts per record, including the first one
+   */
+  maxAttempts?: number;
+
+  /**
+   * Delay in milliseconds before the first resend, doubled for every further attempt
+   */
+  retryDelay?: number;
+
+  /**
+   * Custom check deciding whether a failed record may succeed when resent
+   */
+  isRetryable?: (result: BatchEventResult, record: UsageRecord) => boolean;
+}
+
+/**
+ * Configuration for creating unknown customers when usage is recorded
+ */
+export interface AutoCreateCustomersOptions {
+  /**
+   * Whether records failing because of an unknown customer create the customer and are resent
+   */
+  enabled?: boolean;
+
+  /**
+   * Provide the parameters of a missing customer, or null to leave its records failed
+   */
+  provider: (
+    customerExternalId: string,
+    record: UsageRecord
+  ) => CustomerCreateParams | null | undefined | Promise<CustomerCreateParams | null | undefined>;
+
+  /**
+   * Custom check deciding whether a record failed because its customer does not exist
+   */
+  isUnknownCustomer?: (result: BatchEventResult, record: UsageRecord) => boolean;
+}
+
+/**
+ * Configuration for uploading large usage batches in chunks
+ */
+export interface ChunkingOptions {
+  /**
+   * Maximum number of records sent in one request
+   */
+  chunkSize?: number;
+
+  /**
+   * Maximum number of chunks uploaded at the same time
+   */
+  concurrency?: number;
+}
+
+/**
+ * Progress of a chunked batch upload
+ */
+export interface ChunkProgress {
+  /**
+   * Number of chunks that have been uploaded
+   */
+  completedChunks: number;
+
+  /**
+   * Total number of chunks
+   */
+  totalChunks: number;
+
+  /**
+   * Number of records in the uploaded chunks
+   */
+  completedRecords: number;
+
+  /**
+   * Total number of records
+   */
+  totalRecords: number;
+
+  /**
+   * Number of records in the uploaded chunks that failed
+   */
+  failedRecords: number;
+}
+
+/**
+ * Rule for combining the metadata of aggregated records
+ * - 'first': keep the metadata of the first record
+ * - 'last': keep the metadata of the last record
+ * - 'merge': shallow-merge all metadata, later records win
+ * - function: custom merge of the current and the next metadata
+ */
+export type MetadataMergeRule =
+  | 'first'
+  | 'last'
+  | 'merge'
+  | ((current: Record<string, any>, next: Record<string, any>) => Record<string, any>);
+
+/**
+ * Configuration for local pre-aggregation of usage events
+ */
+export interface AggregationOptions {
+  /**
+   * Whether single usage events are summed locally before they are sent
+   * Events with an idempotency key (on the record or in the track options) are never aggregated:
+   * an aggregated record gets its own key, so replaying a keyed event would be billed again
+   */
+  enabled?: boolean;
+
+  /**
+   * Length of the aggregation window in milliseconds
+   */
+  window?: number;
+
+  /**
+   * Signals to aggregate (defaults to all signals)
+   */
+  signals?: string[];
+
+  /**
+   * How the metadata of aggregated records is combined
+   * With the built-in rules, metadata.usageCost units are summed per serviceName and the
+   * amounts of metadata.estimatedCost are summed, so costs match the summed quantity
+   */
+  mergeMetadata?: MetadataMergeRule;
+
+  /**
+   * Whether the number of raw events is added to metadata.rawEventCount
+   */
+  includeEventCount?: boolean;
+}
+
+/**
+ * Configuration for the in-memory customer cache
+ */
+export interface CustomerCacheOptions {
+  /**
+   * Whether customers.get and customers.getByExternalId are served from the cache
+   */
+  enabled?: boolean;
+
+  /**
+   * How long a cached customer is used without asking the API, in milliseconds
+   */
+  ttl?: number;
+
+  /**
+   * Maximum number of cached customers; the least recently used are evicted first
+   */
+  maxSize?: number;
+
+  /**
+   * Whether expired customers are revalidated with If-None-Match when the API sent an ETag
+   */
+  revalidate?: boolean;
+}
+
+/**
+ * Configuration for entitlement checks
+ */
+export interface EntitlementOptions {
+  /**
+   * How long a fetched entitlement answers checks without asking the API, in milliseconds
+   */
+  cacheTtl?: number;
+
+  /**
+   * Maximum number of cached entitlements; the oldest are evicted first
+   */
+  maxSize?: number;
+
+  /**
+   * Whether allowed checks reserve their quantity locally until the entitlement is fetched again
+   */
+  reserve?: boolean;
+}
+
+/**
+ * Configuration for prepaid credit notifications
+ */
+export interface CreditOptions {
+  /**
+   * Balance below which onLowBalance is called (defaults to 0)
+   */
+  lowBalanceThreshold?: number;
+
+  /**
+   * Called when a usage response or balance read shows a balance falling below the threshold
+   */
+  onLowBalance?: (event: LowBalanceEvent) => void | Promise<void>;
+
+  /**
+   * Maximum number of customers whose last balance is tracked (defaults to 1000); the least
+   * recently seen are evicted first
+   */
+  maxSize?: number;
+}
+
+/**
+ * On-disk spool configuration options
+ */
+export interface SpoolOptions {
+  /**
+   * Whether usage records are written to disk before they are sent
+   */
+  enabled?: boolean;
+
+  /**
+   * Path of the spool file (defaults to .revmax-usage-spool.jsonl in the working directory)
+   */
+  path?: string;
+
+  /**
+   * Interval in milliseconds between attempts to replay pending records
+   */
+  replayInterval?: number;
+
+  /**
+   * Maximum number of records sent per replay request
+   */
+  replayBatchSize?: number;
+}
+
+/**
+ * Backlog information for the on-disk spool
+ */
+export interface SpoolStats {
+  /**
+   * Number of records waiting to be delivered
+   */
+  size: number;
+
+  /**
+   * When the oldest pending record was written to the spool
+   */
+  oldestEnqueuedAt?: string;
+
+  /**
+   * The oldest pending record
+   */
+  oldestRecord?: UsageRecord;
 }
 
 /**
@@ -70,6 +512,27 @@ export type LogLevel = "debug" | "info" | "warn" | "error";
  */
 export type LogHandler = (level: LogLevel, message: string, data?: any) => void;
 
+/**
+ * Per-request options for mutating operations
+ */
+export interface RequestOptions {
+  /**
+   * Idempotency key sent with the request and reused across retry attempts
+   * (generated automatically when omitted)
+   */
+  idempotencyKey?: string;
+}
+
+/**
+ * Options for tracking usage events
+ */
+export interface TrackEventOptions extends RequestOptions {
+  /**
+   * Called after each chunk of a large batch has been uploaded
+   */
+  onProgress?: (progress: ChunkProgress) => void;
+}
+
 /**
  * Authentication method interface
  */
@@ -93,7 +556,7 @@ export interface AuthMethod {
 /**
  * Single usage record parameters
  */
-export interface UsageRecord {
+export interface UsageRecord<M extends Metadata = Metadata> {
   /**
    * External ID of the customer
    */
@@ -119,16 +582,153 @@ export interface UsageRecord {
    */
   usageDate?: string | Date;
 
+  /**
+   * Additional metadata for the usage record
+   */
+  metadata?: M;
+
+  /**
+   * Key used by the API to deduplicate the record (generated when omitted)
+   */
+  idempotencyKey?: string;
+}
+
+/**
+ * Cost component of a usage record, stored in metadata.usageCost
+ */
+export interface UsageCost {
+  /**
+   * Name of the service that incurred the cost (e.g. 'LLM', 'TTS')
+   */
+  serviceName: string;
+
+  /**
+   * Number of units consumed
+   */
+  units: number;
+}
+
+/**
+ * Prices of an LLM model in USD per million tokens
+ */
+export interface ModelPricing {
+  /**
+   * Price per million uncached input tokens
+   */
+  inputPerMillion: number;
+
+  /**
+   * Price per million output tokens
+   */
+  outputPerMillion: number;
+
+  /**
+   * Price per million input tokens served from cache (defaults to the input price)
+   */
+  cachedInputPerMillion?: number;
+}
+
+/**
+ * LLM prices keyed by model name
+ */
+export type LlmPriceTable = Record<string, ModelPricing>;
+
+/**
+ * Parameters for tracking an LLM call
+ */
+export interface LlmCallParams {
+  /**
+   * External ID of the customer
+   */
+  customerExternalId: string;
+
+  /**
+   * ID of the agent
+   */
+  agentId: string;
+
+  /**
+   * Name of the model that handled the call
+   */
+  model: string;
+
+  /**
+   * Number of input tokens, including cached tokens
+   */
+  inputTokens: number;
+
+  /**
+   * Number of output tokens
+   */
+  outputTokens?: number;
+
+  /**
+   * Number of input tokens served from cache
+   */
+  cachedTokens?: number;
+
+  /**
+   * Name of the signal being recorded (defaults to 'llm_call')
+   */
+  signalName?: string;
+
+  /**
+   * Quantity of usage to record (defaults to 1)
+   */
+  quantity?: number;
+
+  /**
+   * Date when usage occurred (defaults to current time)
+   */
+  usageDate?: string | Date;
+
   /**
    * Additional metadata for the usage record
    */
   metadata?: Record<string, any>;
+
+  /**
+   * Key used by the API to deduplicate the record (generated when omitted)
+   */
+  idempotencyKey?: string;
+}
+
+/**
+ * Locally estimated cost of an LLM call in USD
+ */
+export interface LlmCostEstimate {
+  /**
+   * Cost of the uncached input tokens
+   */
+  inputCost: number;
+
+  /**
+   * Cost of the cached input tokens
+   */
+  cachedInputCost: number;
+
+  /**
+   * Cost of the output tokens
+   */
+  outputCost: number;
+
+  /**
+   * Total cost of the call
+   */
+  totalCost: number;
+
+  /**
+   * Currency of the amounts
+   */
+  currency: 'USD';
 }
 
 /**
  * Usage recording parameters - supports both single record and batch format
  */
-export type TrackEventParams = UsageRecord | { records: UsageRecord[] };
+export type TrackEventParams<M extends Metadata = Metadata> =
+  | UsageRecord<M>
+  | { records: UsageRecord<M>[] };
 
 /**
  * Response for a single usage record
@@ -144,12 +744,77 @@ export interface SingleEventResponse {
    */
   success: boolean;
 
+  /**
+   * Credit balance of the customer after the usage, when they have prepaid credits
+   */
+  creditBalance?: number;
+
   /**
    * Additional response data
    */
   [key: string]: any;
 }
 
+/**
+ * Result for a single record of a batch
+ */
+export interface BatchEventResult {
+  /**
+   * Whether this record was successfully processed
+   */
+  success: boolean;
+
+  /**
+   * The data for the record, if successful
+   */
+  responseData?: SingleEventResponse;
+
+  /**
+   * Error message if the record failed
+   */
+  error?: string;
+
+  /**
+   * Whether the API reports the failure as transient
+   */
+  retryable?: boolean;
+
+  /**
+   * Whether the record was kept in the spool and will be replayed, so it must not be resent
+   */
+  spooled?: boolean;
+
+  /**
+   * The original data that was submitted
+   */
+  originalData?: Record<string, any>;
+}
+
+/**
+ * A record of a batch that could not be recorded
+ */
+export interface BatchRecordFailure {
+  /**
+   * The usage record that failed
+   */
+  record: UsageRecord;
+
+  /**
+   * Error message reported for the record
+   */
+  error: string;
+
+  /**
+   * Whether the failure was considered retryable
+   */
+  retryable: boolean;
+
+  /**
+   * Whether the record was kept in the spool and will be replayed
+   */
+  spooled?: boolean;
+}
+
 /**
  * Response for batch usage recording
  */
@@ -177,27 +842,7 @@ export interface BatchEventResponse {
   /**
    * Results for each record
    */
-  results: Array<{
-    /**
-     * Whether this record was successfully processed
-     */
-    success: boolean;
-
-    /**
-     * The data for the record, if successful
-     */
-    responseData?: SingleEventResponse;
-
-    /**
-     * Error message if the record failed
-     */
-    error?: string;
-
-    /**
-     * The original data that was submitted
-     */
-    originalData?: Record<string, any>;
-  }>;
+  results: BatchEventResult[];
 }
 
 /**
@@ -208,7 +853,7 @@ export type TrackEventResponse = SingleEventResponse | BatchEventResponse;
 /**
  * Customer object
  */
-export interface Customer {
+export interface Customer<M extends Metadata = Metadata> {
   /**
    * Unique ID of the customer
    */
@@ -229,6 +874,21 @@ export interface Customer {
    */
   externalId?: string;
 
+  /**
+   * Lifecycle status of the customer
+   */
+  status?: CustomerStatus;
+
+  /**
+   * Reason given for the last status change
+   */
+  statusReason?: string;
+
+  /**
+   * When the status last changed
+   */
+  statusChangedAt?: string;
+
   /**
    * When the customer was created
    */
@@ -242,13 +902,18 @@ export interface Customer {
   /**
    * Additional customer metadata
    */
+  metadata?: M;
+
+  /**
+   * Other customer fields returned by the API
+   */
   [key: string]: any;
 }
 
 /**
  * Parameters for creating a customer
  */
-export interface CustomerCreateParams {
+export interface CustomerCreateParams<M extends Metadata = Metadata> {
   /**
    * Name of the customer
    */
@@ -267,13 +932,13 @@ export interface CustomerCreateParams {
   /**
    * Additional customer metadata
    */
-  metadata?: Record<string, any>;
+  metadata?: M;
 }
 
 /**
  * Parameters for updating a customer
  */
-export interface CustomerUpdateParams {
+export interface CustomerUpdateParams<M extends Metadata = Metadata> {
   /**
    * Name of the customer
    */
@@ -292,65 +957,201 @@ export interface CustomerUpdateParams {
   /**
    * Additional customer metadata
    */
-  metadata?: Record<string, any> | null;
+  metadata?: M | null;
 }
 
 /**
  * Parameters for listing customers
  */
-export interface CustomerListParams {
+export interface CustomerListParams extends PaginationParams {
   /**
-   * Page number for pagination
+   * Filter by external ID, or by any of several external IDs
    */
-  page?: number;
+  externalId?: string | string[];
 
   /**
-   * Number of items per page
+   * Filter by name
    */
-  limit?: number;
+  name?: string;
 
   /**
-   * Filter by external ID
+   * Filter by status, or by any of several statuses
    */
-  externalId?: string;
+  status?: CustomerStatus | CustomerStatus[];
 
   /**
    * Filter by email
    */
   email?: string;
 
+  /**
+   * Filter by country
+   */
+  country?: string;
+
+  /**
+   * Filter by creation date
+   */
+  createdAt?: DateRangeFilter;
+
+  /**
+   * Filter by last update date
+   */
+  updatedAt?: DateRangeFilter;
+
+  /**
+   * Filter by metadata values, matching customers whose metadata has every given key and value
+   */
+  metadata?: Record<string, string | number | boolean>;
+
+  /**
+   * Free-text search across name, email and billing contact
+   */
+  search?: string;
+
   /**
    * Search query string
+   * @deprecated Use search instead
    */
   query?: string;
 }
 
+/**
+ * Date range filter; either bound may be omitted
+ */
+export interface DateRangeFilter {
+  /**
+   * Earliest matching date (inclusive)
+   */
+  from?: string | Date;
+
+  /**
+   * Latest matching date (inclusive)
+   */
+  to?: string | Date;
+}
+
 /**
  * Response for customer listing
  */
-export interface CustomerListResponse {
+export type CustomerListResponse<M extends Metadata = Metadata> = PaginatedResponse<Customer<M>>;
+
+/**
+ * Input row of a customer sync, e.g. one line of a CSV export
+ */
+export type CustomerSyncRow = Record<string, any>;
+
+/**
+ * Column of the input rows to read each customer field from
+ */
+export type CustomerColumnMapping = Partial<Record<keyof CustomerCreateParams, string>>;
+
+/**
+ * Options for syncing customers in bulk
+ */
+export interface CustomerSyncOptions<M extends Metadata = Metadata> {
+  /**
+   * Column to read each customer field from. Fields that are not mapped are read from
+   * the column with the same name, and columns named `metadata.<key>` are collected
+   * into metadata.
+   */
+  columns?: CustomerColumnMapping;
+
+  /**
+   * Custom mapping of a row onto customer parameters, used instead of columns
+   */
+  mapRow?: (row: CustomerSyncRow, index: number) => CustomerCreateParams<M>;
+
+  /**
+   * Maximum number of lookup, create and update requests in flight at once
+   * @default 5
+   */
+  concurrency?: number;
+
+  /**
+   * Compute the report without creating or updating any customer
+   * @default false
+   */
+  dryRun?: boolean;
+
+  /**
+   * Field delimiter of CSV input
+   * @default ","
+   */
+  delimiter?: string;
+}
+
+/**
+ * Outcome of one row of a customer sync
+ */
+export type CustomerSyncAction = "created" | "updated" | "unchanged" | "failed";
+
+/**
+ * Result of syncing one input row
+ */
+export interface CustomerSyncRowResult<M extends Metadata = Metadata> {
+  /**
+   * 1-based position of the row in the input (CSV header excluded)
+   */
+  row: number;
+
+  /**
+   * External ID of the customer
+   */
+  externalId?: string;
+
+  /**
+   * What was done with the row
+   */
+  action: CustomerSyncAction;
+
+  /**
+   * Customer after the sync (the existing customer for unchanged rows, and not set in dry-run mode)
+   */
+  customer?: Customer<M>;
+
+  /**
+   * Parameters sent (or that would be sent in dry-run mode) to create or update the customer
+   */
+  changes?: CustomerCreateParams<M> | CustomerUpdateParams<M>;
+
+  /**
+   * Reason the row failed
+   */
+  error?: string;
+}
+
+/**
+ * Report of a customer sync
+ */
+export interface CustomerSyncReport<M extends Metadata = Metadata> {
+  /**
+   * Whether the sync ran in dry-run mode
+   */
+  dryRun: boolean;
+
   /**
-   * Array of customers
+   * Number of input rows
    */
-  data: Customer[];
+  total: number;
 
   /**
-   * Total number of results
+   * Rows for which a customer was created
    */
-  totalResults: number;
+  created: CustomerSyncRowResult<M>[];
 
   /**
-   * Current page number
+   * Rows for which an existing customer was updated
    */
-  page: number;
+  updated: CustomerSyncRowResult<M>[];
 
   /**
-   * Number of items per page
+   * Rows matching an existing customer that needed no change
    */
-  limit: number;
+  unchanged: CustomerSyncRowResult<M>[];
 
   /**
-   * Whether there's a next page
+   * Rows that could not be synced, with the reason
    */
-  hasMore: boolean;
+  failed: CustomerSyncRowResult<M>[];
 }
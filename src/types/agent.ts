@@ -0,0 +1,55 @@
+import { PaginatedResponse, PaginationParams } from './common';
+
+/**
+ * Agent status options
+ */
+export type AgentStatus = 'active' | 'retired';
+
+/**
+ * Agent interface matching the API response
+ */
+export interface Agent {
+  id: string;
+  name: string;
+  description?: string;
+  externalId?: string;
+  organizationId: string;
+  status: AgentStatus;
+  metadata?: Record<string, any>;
+  retiredAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Parameters for creating an agent
+ */
+export interface AgentCreateParams {
+  name: string;
+  description?: string;
+  externalId?: string;
+  metadata?: Record<string, any>;
+}
+
+/**
+ * Parameters for updating an agent
+ */
+export interface AgentUpdateParams {
+  name?: string;
+  description?: string;
+  externalId?: string;
+  metadata?: Record<string, any> | null;
+}
+
+/**
+ * Parameters for listing agents
+ */
+export interface AgentListParams extends PaginationParams {
+  status?: AgentStatus;
+  search?: string;
+}
+
+/**
+ * Response for listing agents
+ */
+export type AgentListResponse = PaginatedResponse<Agent>;
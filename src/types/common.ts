@@ -103,3 +103,18 @@ export interface PaginationParams {
   sortBy?: string;
   sortOrder?: 'asc' | 'desc';
 }
+
+/**
+ * Options for iterating over every page of a list endpoint
+ */
+export interface AutoPaginationOptions {
+  /**
+   * Stop after this many items have been returned
+   */
+  maxItems?: number;
+
+  /**
+   * Fetch the next page while the current one is being processed (defaults to true)
+   */
+  prefetch?: boolean;
+}
@@ -0,0 +1,85 @@
+import { PaginatedResponse, PaginationParams } from './common';
+
+/**
+ * Prepaid credit balance of a customer
+ */
+export interface CreditBalance {
+  customerExternalId: string;
+  balance: number;
+  updatedAt: string;
+}
+
+/**
+ * Credits granted to a customer, burned down by tracked usage
+ */
+export interface CreditGrant {
+  id: string;
+  customerExternalId: string;
+  amount: number;
+  remaining: number;
+  reason: string;
+  expiresAt: string | null;
+  expiredAt?: string;
+  createdAt: string;
+}
+
+/**
+ * Parameters for granting credits to a customer
+ */
+export interface CreditGrantParams {
+  customerExternalId: string;
+  amount: number;
+  reason: string;
+  expiresAt?: string | Date;
+}
+
+/**
+ * Parameters for expiring the remaining credits of a grant
+ */
+export interface CreditExpireParams {
+  reason: string;
+}
+
+/**
+ * Kind of change recorded in the credit ledger
+ */
+export type CreditLedgerEntryType = 'grant' | 'usage' | 'expiration' | 'adjustment';
+
+/**
+ * Change to the credit balance of a customer; amount is negative when credits are used or expire
+ */
+export interface CreditLedgerEntry {
+  id: string;
+  customerExternalId: string;
+  type: CreditLedgerEntryType;
+  amount: number;
+  balanceAfter: number;
+  reason?: string;
+  grantId?: string;
+  usageId?: string;
+  createdAt: string;
+}
+
+/**
+ * Parameters for listing credit ledger entries
+ */
+export interface CreditLedgerListParams extends PaginationParams {
+  customerExternalId?: string;
+  type?: CreditLedgerEntryType | CreditLedgerEntryType[];
+  grantId?: string;
+}
+
+/**
+ * Response for listing credit ledger entries
+ */
+export type CreditLedgerListResponse = PaginatedResponse<CreditLedgerEntry>;
+
+/**
+ * Balance of a customer that fell below the low-balance threshold
+ */
+export interface LowBalanceEvent {
+  customerExternalId: string;
+  balance: number;
+  previousBalance: number | null;
+  threshold: number;
+}
@@ -1,7 +1,9 @@
+import { PaginatedResponse, PaginationParams } from './common';
+
 /**
  * Customer status options
  */
-export type CustomerStatus = 'active' | 'inactive' | 'suspended';
+export type CustomerStatus = 'active' | 'inactive' | 'suspended' | 'archived';
 
 /**
  * Customer interface matching the API response
@@ -68,25 +70,34 @@ export interface CustomerUpdateParams {
 }
 
 /**
- * Parameters for listing customers
+ * Parameters for changing the status of a customer
  */
-export interface CustomerListParams {
-  page?: number;
-  limit?: number;
-  name?: string;
-  email?: string;
-  status?: CustomerStatus;
-  sortBy?: string;
-  sortOrder?: 'asc' | 'desc';
+export interface CustomerStatusChangeParams {
+  /**
+   * Why the status is changed, kept in the status history
+   */
+  reason?: string;
 }
 
 /**
- * Response for listing customers
+ * Entry of the status history of a customer
  */
-export interface CustomerListResponse {
-  results: Customer[];
-  page: number;
-  limit: number;
-  totalPages: number;
-  totalResults: number;
+export interface CustomerStatusChange {
+  id: string;
+  customerId: string;
+  fromStatus: CustomerStatus;
+  toStatus: CustomerStatus;
+  reason?: string;
+  changedAt: string;
+  changedBy?: string;
 }
+
+/**
+ * Parameters for listing the status history of a customer
+ */
+export type CustomerStatusHistoryParams = PaginationParams;
+
+/**
+ * Response for listing the status history of a customer
+ */
+export type CustomerStatusHistoryResponse = PaginatedResponse<CustomerStatusChange>;
@@ -0,0 +1,39 @@
+/**
+ * Entitlement of a customer to a signal for the current period, as returned by the API
+ *
+ * Limit and remaining are null when the plan does not cap the signal.
+ */
+export interface Entitlement {
+  customerExternalId: string;
+  signalName: string;
+  limit: number | null;
+  usage: number;
+  remaining: number | null;
+  resetAt: string | null;
+}
+
+/**
+ * Outcome of checking whether a customer may use a quantity of a signal
+ */
+export interface EntitlementCheckResult {
+  allowed: boolean;
+  limit: number | null;
+  remaining: number | null;
+  resetAt: string | null;
+  cached: boolean;
+}
+
+/**
+ * Options for a single entitlement check
+ */
+export interface EntitlementCheckOptions {
+  /**
+   * Fetch the entitlement from the API even if a cached one is still fresh
+   */
+  fresh?: boolean;
+
+  /**
+   * Reserve the quantity locally when allowed, overriding the client option
+   */
+  reserve?: boolean;
+}
@@ -2,3 +2,12 @@
 export * from './common';
 export * from './customer';
 export * from './usage';
+export * from './agent';
+export * from './signal';
+export * from './plan';
+export * from './subscription';
+export * from './invoice';
+export * from './webhook';
+export * from './entitlement';
+export * from './credit';
+export * from './organization';
@@ -0,0 +1,67 @@
+import { PaginatedResponse, PaginationParams } from './common';
+
+/**
+ * Invoice status options
+ */
+export type InvoiceStatus = 'draft' | 'open' | 'paid' | 'void' | 'uncollectible';
+
+/**
+ * Line item of an invoice; usage line items reference the signal they bill for
+ */
+export interface InvoiceLineItem {
+  id: string;
+  description: string;
+  signalId?: string;
+  signalName?: string;
+  quantity: number;
+  unitAmount: number;
+  amount: number;
+  periodStart?: string;
+  periodEnd?: string;
+}
+
+/**
+ * Invoice interface matching the API response
+ */
+export interface Invoice {
+  id: string;
+  number: string;
+  customerId: string;
+  customerExternalId?: string;
+  subscriptionId?: string;
+  status: InvoiceStatus;
+  currency: string;
+  subtotal: number;
+  tax: number;
+  total: number;
+  periodStart: string;
+  periodEnd: string;
+  issuedAt?: string;
+  dueAt?: string;
+  paidAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Invoice with its line items
+ */
+export interface InvoiceDetails extends Invoice {
+  lineItems: InvoiceLineItem[];
+}
+
+/**
+ * Parameters for listing invoices
+ */
+export interface InvoiceListParams extends PaginationParams {
+  customerId?: string;
+  customerExternalId?: string;
+  status?: InvoiceStatus | InvoiceStatus[];
+  periodStart?: string | Date;
+  periodEnd?: string | Date;
+}
+
+/**
+ * Response for listing invoices
+ */
+export type InvoiceListResponse = PaginatedResponse<Invoice>;
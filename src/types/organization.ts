@@ -0,0 +1,99 @@
+import { PaginatedResponse, PaginationParams } from './common';
+
+/**
+ * Billing configuration of an organization
+ */
+export interface OrganizationBillingSettings {
+  billingEmail?: string;
+  invoicePrefix?: string;
+  taxId?: string;
+  paymentTermsDays: number;
+  autoFinalizeInvoices: boolean;
+}
+
+/**
+ * Settings of an organization; currency is an ISO 4217 code and timezone an IANA name
+ */
+export interface OrganizationSettings {
+  currency: string;
+  timezone: string;
+  billing: OrganizationBillingSettings;
+}
+
+/**
+ * Organization interface matching the API response
+ */
+export interface Organization {
+  id: string;
+  name: string;
+  settings: OrganizationSettings;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Parameters for updating an organization; settings are merged with the current ones
+ */
+export interface OrganizationUpdateParams {
+  name?: string;
+  settings?: {
+    currency?: string;
+    timezone?: string;
+    billing?: Partial<OrganizationBillingSettings>;
+  };
+}
+
+/**
+ * Permission granted to an API key
+ */
+export type ApiKeyScope =
+  | 'usage:read'
+  | 'usage:write'
+  | 'customers:read'
+  | 'customers:write'
+  | 'billing:read'
+  | 'billing:write'
+  | 'admin';
+
+/**
+ * API key interface matching the API response; the secret itself is only returned on creation
+ */
+export interface ApiKey {
+  id: string;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  restricted: boolean;
+  lastUsedAt: string | null;
+  expiresAt: string | null;
+  revokedAt: string | null;
+  createdAt: string;
+}
+
+/**
+ * Newly created API key, including its secret
+ */
+export interface CreatedApiKey extends ApiKey {
+  key: string;
+}
+
+/**
+ * Parameters for creating a restricted API key
+ */
+export interface ApiKeyCreateParams {
+  name: string;
+  scopes: ApiKeyScope[];
+  expiresAt?: string | Date;
+}
+
+/**
+ * Parameters for listing API keys
+ */
+export interface ApiKeyListParams extends PaginationParams {
+  includeRevoked?: boolean;
+}
+
+/**
+ * Response for listing API keys
+ */
+export type ApiKeyListResponse = PaginatedResponse<ApiKey>;
@@ -0,0 +1,50 @@
+import { PaginatedResponse, PaginationParams } from './common';
+
+/**
+ * Billing interval options
+ */
+export type PlanInterval = 'month' | 'year';
+
+/**
+ * Plan status options
+ */
+export type PlanStatus = 'active' | 'archived';
+
+/**
+ * Price of a signal within a plan
+ */
+export interface PlanPrice {
+  signalName: string;
+  unitAmount: number;
+  includedQuantity?: number;
+}
+
+/**
+ * Pricing plan interface matching the API response
+ */
+export interface Plan {
+  id: string;
+  name: string;
+  description?: string;
+  currency: string;
+  interval: PlanInterval;
+  baseAmount: number;
+  prices: PlanPrice[];
+  status: PlanStatus;
+  organizationId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Parameters for listing plans
+ */
+export interface PlanListParams extends PaginationParams {
+  status?: PlanStatus;
+  currency?: string;
+}
+
+/**
+ * Response for listing plans
+ */
+export type PlanListResponse = PaginatedResponse<Plan>;
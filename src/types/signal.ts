@@ -0,0 +1,53 @@
+import { PaginatedResponse, PaginationParams } from './common';
+
+/**
+ * How the quantities recorded for a signal are combined when billing
+ */
+export type SignalAggregation = 'sum' | 'count' | 'max' | 'last';
+
+/**
+ * Signal interface matching the API response
+ */
+export interface Signal {
+  id: string;
+  name: string;
+  displayName?: string;
+  description?: string;
+  unit: string;
+  aggregation: SignalAggregation;
+  organizationId: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Parameters for defining a signal
+ */
+export interface SignalCreateParams {
+  name: string;
+  displayName?: string;
+  description?: string;
+  unit: string;
+  aggregation?: SignalAggregation;
+}
+
+/**
+ * Parameters for updating a signal
+ */
+export interface SignalUpdateParams {
+  displayName?: string;
+  description?: string;
+  unit?: string;
+}
+
+/**
+ * Parameters for listing signals
+ */
+export interface SignalListParams extends PaginationParams {
+  search?: string;
+}
+
+/**
+ * Response for listing signals
+ */
+export type SignalListResponse = PaginatedResponse<Signal>;
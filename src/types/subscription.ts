@@ -0,0 +1,85 @@
+import { PaginatedResponse, PaginationParams } from './common';
+
+/**
+ * Subscription status options
+ */
+export type SubscriptionStatus = 'trialing' | 'active' | 'past_due' | 'canceled';
+
+/**
+ * How a plan change mid-period is charged
+ * - 'create_prorations': credit the unused time of the old plan and charge the new plan on the next invoice
+ * - 'always_invoice': same as create_prorations, but invoice the difference right away
+ * - 'none': switch plans without proration
+ */
+export type ProrationBehavior = 'create_prorations' | 'always_invoice' | 'none';
+
+/**
+ * Subscription interface matching the API response
+ */
+export interface Subscription {
+  id: string;
+  customerId: string;
+  customerExternalId?: string;
+  planId: string;
+  status: SubscriptionStatus;
+  currentPeriodStart: string;
+  currentPeriodEnd: string;
+  cancelAtPeriodEnd: boolean;
+  canceledAt?: string;
+  trialEnd?: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Parameters for subscribing a customer to a plan
+ */
+export interface SubscriptionCreateParams {
+  planId: string;
+  customerId?: string;
+  customerExternalId?: string;
+  startDate?: string | Date;
+  trialDays?: number;
+}
+
+/**
+ * Parameters for changing the plan of a subscription
+ */
+export interface SubscriptionChangePlanParams {
+  planId: string;
+  proration?: ProrationBehavior;
+  effectiveAt?: 'now' | 'period_end';
+}
+
+/**
+ * Parameters for canceling a subscription
+ */
+export interface SubscriptionCancelParams {
+  atPeriodEnd?: boolean;
+  reason?: string;
+}
+
+/**
+ * Current billing period of a subscription
+ */
+export interface SubscriptionPeriod {
+  subscriptionId: string;
+  planId: string;
+  start: string;
+  end: string;
+}
+
+/**
+ * Parameters for listing subscriptions
+ */
+export interface SubscriptionListParams extends PaginationParams {
+  customerId?: string;
+  customerExternalId?: string;
+  planId?: string;
+  status?: SubscriptionStatus;
+}
+
+/**
+ * Response for listing subscriptions
+ */
+export type SubscriptionListResponse = PaginatedResponse<Subscription>;
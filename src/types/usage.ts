@@ -1,3 +1,5 @@
+import { PaginatedResponse, PaginationParams } from './common';
+
 /**
  * Usage record interface matching the API response
  */
@@ -33,3 +35,57 @@ export interface RecordUsageResponse {
   success: boolean;
   usageRecord: UsageRecord;
 }
+
+/**
+ * Parameters for listing recorded usage
+ */
+export interface UsageListParams extends PaginationParams {
+  customerExternalId?: string;
+  agentId?: string;
+  signalName?: string;
+  startDate?: string | Date;
+  endDate?: string | Date;
+}
+
+/**
+ * Response for listing recorded usage
+ */
+export type UsageListResponse = PaginatedResponse<UsageRecord>;
+
+/**
+ * Time period used to group a usage summary
+ */
+export type UsageSummaryPeriod = 'day' | 'month';
+
+/**
+ * Parameters for summarizing recorded usage
+ */
+export interface UsageSummaryParams {
+  customerExternalId?: string;
+  agentId?: string;
+  signalName?: string;
+  startDate?: string | Date;
+  endDate?: string | Date;
+  groupBy?: UsageSummaryPeriod;
+}
+
+/**
+ * Total quantity of a signal within one period
+ */
+export interface UsageSummaryEntry {
+  signalName: string;
+  period: string;
+  quantity: number;
+  eventCount: number;
+}
+
+/**
+ * Response for summarizing recorded usage
+ */
+export interface UsageSummaryResponse {
+  groupBy: UsageSummaryPeriod;
+  startDate?: string;
+  endDate?: string;
+  results: UsageSummaryEntry[];
+  totals: Record<string, number>;
+}
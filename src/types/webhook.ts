@@ -0,0 +1,73 @@
+import { Invoice } from './invoice';
+import { Subscription } from './subscription';
+
+/**
+ * Fields shared by every webhook event
+ */
+interface WebhookEventBase<T extends string, D> {
+  id: string;
+  type: T;
+  createdAt: string;
+  livemode?: boolean;
+  data: D;
+}
+
+/**
+ * Usage of a customer went over the quota of a signal
+ */
+export interface QuotaExceededData {
+  customerExternalId: string;
+  signalName: string;
+  limit: number;
+  usage: number;
+  periodStart: string;
+  periodEnd: string;
+}
+
+export type InvoiceFinalizedEvent = WebhookEventBase<'invoice.finalized', { invoice: Invoice }>;
+export type InvoicePaidEvent = WebhookEventBase<'invoice.paid', { invoice: Invoice }>;
+export type InvoicePaymentFailedEvent = WebhookEventBase<
+  'invoice.payment_failed',
+  { invoice: Invoice; failureReason?: string }
+>;
+export type SubscriptionCreatedEvent = WebhookEventBase<
+  'subscription.created',
+  { subscription: Subscription }
+>;
+export type SubscriptionUpdatedEvent = WebhookEventBase<
+  'subscription.updated',
+  { subscription: Subscription }
+>;
+export type SubscriptionCanceledEvent = WebhookEventBase<
+  'subscription.canceled',
+  { subscription: Subscription }
+>;
+export type QuotaExceededEvent = WebhookEventBase<'quota.exceeded', QuotaExceededData>;
+
+/**
+ * Webhook event, discriminated by its type
+ */
+export type WebhookEvent =
+  | InvoiceFinalizedEvent
+  | InvoicePaidEvent
+  | InvoicePaymentFailedEvent
+  | SubscriptionCreatedEvent
+  | SubscriptionUpdatedEvent
+  | SubscriptionCanceledEvent
+  | QuotaExceededEvent;
+
+/**
+ * Name of a webhook event type
+ */
+export type WebhookEventType = WebhookEvent['type'];
+
+/**
+ * Options for verifying a webhook
+ */
+export interface WebhookVerifyOptions {
+  /**
+   * Maximum age of the signature timestamp in seconds; 0 disables the check
+   * @default 300
+   */
+  tolerance?: number;
+}
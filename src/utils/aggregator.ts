@@ -0,0 +1,253 @@
+import { v4 as uuidv4 } from 'uuid';
+import {
+  AggregationOptions,
+  BatchEventResult,
+  MetadataMergeRule,
+  UsageCost,
+  UsageRecord,
+} from '../types';
+import { BatchSender, resultForRecord } from './batcher';
+import { RevMaxError } from './errors';
+import { Logger } from './logger';
+
+/**
+ * Default aggregation options
+ */
+const DEFAULT_AGGREGATION_OPTIONS: Required<Omit<AggregationOptions, 'signals'>> = {
+  enabled: false,
+  window: 10000,
+  mergeMetadata: 'merge',
+  includeEventCount: true,
+};
+
+/**
+ * Records summed within the current window for one customer, agent and signal
+ */
+interface AggregateGroup {
+  record: UsageRecord;
+  eventCount: number;
+  waiters: Array<{
+    resolve: (result: BatchEventResult) => void;
+    reject: (error: any) => void;
+  }>;
+}
+
+/**
+ * Combine two metadata objects according to a merge rule
+ * @param rule - Merge rule
+ * @param current - Metadata collected so far
+ * @param next - Metadata of the next record
+ * @returns Combined metadata
+ */
+function mergeMetadata(
+  rule: MetadataMergeRule,
+  current: Record<string, any> | undefined,
+  next: Record<string, any> | undefined
+): Record<string, any> | undefined {
+  if (typeof rule === 'function') {
+    return rule(current || {}, next || {});
+  }
+
+  switch (rule) {
+    case 'first':
+      return current;
+    case 'last':
+      return next;
+    case 'merge':
+    default:
+      return current || next ? { ...current, ...next } : undefined;
+  }
+}
+
+/**
+ * Sum the usageCost units per service and the estimatedCost amounts of two metadata objects,
+ * so that the costs of an aggregated record match its summed quantity
+ * @param merged - Metadata combined by the merge rule
+ * @param current - Metadata collected so far
+ * @param next - Metadata of the next record
+ * @returns Combined metadata with summed costs
+ */
+function sumCosts(
+  merged: Record<string, any> | undefined,
+  current: Record<string, any> | undefined,
+  next: Record<string, any> | undefined
+): Record<string, any> | undefined {
+  if (!merged) return merged;
+  const result = { ...merged };
+
+  const costs = [current?.usageCost, next?.usageCost].filter(Array.isArray);
+  if (costs.length > 0) {
+    const units: Map<string, number> = new Map();
+    ([] as UsageCost[]).concat(...costs).forEach((cost) => {
+      units.set(cost.serviceName, (units.get(cost.serviceName) || 0) + cost.units);
+    });
+    result.usageCost = Array.from(units, ([serviceName, total]) => ({ serviceName, units: total }));
+  }
+
+  const estimates = [current?.estimatedCost, next?.estimatedCost].filter(
+    (estimate) => estimate && typeof estimate === 'object'
+  );
+  if (estimates.length > 0) {
+    const total: Record<string, any> = {};
+    estimates.forEach((estimate) => {
+      Object.entries(estimate).forEach(([key, value]) => {
+        total[key] = typeof value === 'number' ? (total[key] || 0) + value : value;
+      });
+    });
+    result.estimatedCost = total;
+  }
+
+  return result;
+}
+
+/**
+ * Sums the quantity of usage events per (customerExternalId, agentId, signalName)
+ * over a time window and sends one record per group
+ */
+export class UsageAggregator {
+  private readonly options: Required<Omit<AggregationOptions, 'signals'>>;
+  private readonly signals: Set<string> | null;
+  private readonly send: BatchSender;
+  private readonly logger: Logger;
+  private groups: Map<string, AggregateGroup> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> = Promise.resolve();
+  private closed: boolean = false;
+
+  /**
+   * Create a new usage aggregator
+   * @param options - Aggregation options
+   * @param send - Function used to send the aggregated records
+   * @param logger - Logger instance
+   */
+  constructor(options: AggregationOptions, send: BatchSender, logger: Logger) {
+    this.options = { ...DEFAULT_AGGREGATION_OPTIONS, ...options };
+    this.signals = options.signals ? new Set(options.signals) : null;
+    this.send = send;
+    this.logger = logger;
+
+    if (this.options.window > 0) {
+      this.timer = setInterval(() => {
+        this.flush().catch((error) => {
+          this.logger.error('Aggregation flush failed', { error });
+        });
+      }, this.options.window);
+
+      // Don't keep the process alive just for the aggregation timer
+      this.timer.unref();
+    }
+  }
+
+  /**
+   * Check if a record is aggregated
+   *
+   * Records with a caller-supplied idempotency key are sent as they are, since the aggregated
+   * record gets a new key and replaying the caller's event would be billed again.
+   *
+   * @param record - Usage record, before an idempotency key is generated for it
+   * @returns Whether the record is aggregated
+   */
+  accepts(record: UsageRecord): boolean {
+    return (
+      !this.closed &&
+      !record.idempotencyKey &&
+      (!this.signals || this.signals.has(record.signalName))
+    );
+  }
+
+  /**
+   * Add a record to its group for the current window
+   * @param record - Formatted usage record
+   * @returns Promise settling with the result entry of the aggregated record
+   */
+  add(record: UsageRecord): Promise<BatchEventResult> {
+    if (this.closed) {
+      return Promise.reject(new RevMaxError('Usage aggregator has been shut down'));
+    }
+
+    const key = JSON.stringify([record.customerExternalId, record.agentId, record.signalName]);
+    const group = this.groups.get(key);
+
+    if (group) {
+      group.record.quantity += record.quantity;
+      const metadata = mergeMetadata(
+        this.options.mergeMetadata,
+        group.record.metadata,
+        record.metadata
+      );
+      // Costs follow the summed quantity unless a custom merge function handles them
+      group.record.metadata =
+        typeof this.options.mergeMetadata === 'function'
+          ? metadata
+          : sumCosts(metadata, group.record.metadata, record.metadata);
+      group.eventCount++;
+    } else {
+      // The aggregated record is a new event, so it gets its own idempotency key
+      this.groups.set(key, {
+        record: { ...record, idempotencyKey: uuidv4() },
+        eventCount: 1,
+        waiters: [],
+      });
+    }
+
+    return new Promise<BatchEventResult>((resolve, reject) => {
+      this.groups.get(key)!.waiters.push({ resolve, reject });
+    });
+  }
+
+  /**
+   * Send one record per group of the current window
+   * @returns Promise resolving once the aggregated records have been sent
+   */
+  flush(): Promise<void> {
+    this.flushing = this.flushing.then(() => this.sendGroups());
+    return this.flushing;
+  }
+
+  /**
+   * Stop the window timer and send the groups that are left
+   * @returns Promise resolving once everything has been sent
+   */
+  async shutdown(): Promise<void> {
+    this.closed = true;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    await this.flush();
+  }
+
+  /**
+   * Send the groups collected so far and start a new window
+   */
+  private async sendGroups(): Promise<void> {
+    if (this.groups.size === 0) return;
+
+    const groups = Array.from(this.groups.values());
+    this.groups = new Map();
+
+    const records = groups.map((group) =>
+      this.options.includeEventCount
+        ? {
+            ...group.record,
+            metadata: { ...group.record.metadata, rawEventCount: group.eventCount },
+          }
+        : group.record
+    );
+    const eventCount = groups.reduce((total, group) => total + group.eventCount, 0);
+    this.logger.debug(
+      `Sending ${records.length} aggregated usage records for ${eventCount} events`
+    );
+
+    try {
+      const response = await this.send(records);
+      groups.forEach((group, index) => {
+        const result = resultForRecord(response, index, records[index]);
+        group.waiters.forEach((waiter) => waiter.resolve(result));
+      });
+    } catch (error) {
+      groups.forEach((group) => group.waiters.forEach((waiter) => waiter.reject(error)));
+    }
+  }
+}
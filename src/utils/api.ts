@@ -1,4 +1,6 @@
+import { Readable } from 'stream';
 import axios, { AxiosInstance, AxiosRequestConfig, AxiosResponse } from 'axios';
+import { v4 as uuidv4 } from 'uuid';
 import { AuthMethod, ClientOptions } from '../types';
 import { parseApiError } from './errors';
 import { Logger } from './logger';
@@ -6,6 +8,7 @@ import { Telemetry } from './telemetry';
 
 // Add a custom request config that includes metadata
 interface CustomRequestConfig extends AxiosRequestConfig {
+  idempotencyKey?: string;
   metadata?: {
     requestId?: string;
     telemetryTracked?: boolean;
@@ -14,6 +17,26 @@ interface CustomRequestConfig extends AxiosRequestConfig {
   };
 }
 
+/**
+ * Response of a conditional GET request
+ */
+export interface ConditionalResponse<T> {
+  /**
+   * Response body (undefined when notModified is true)
+   */
+  data?: T;
+
+  /**
+   * ETag of the current version of the resource
+   */
+  etag?: string;
+
+  /**
+   * Whether the resource is unchanged since the ETag sent with the request
+   */
+  notModified: boolean;
+}
+
 /**
  * Default API client options
  */
@@ -24,6 +47,16 @@ const DEFAULT_OPTIONS: Partial<ClientOptions> = {
   retryDelay: 300,
 };
 
+/**
+ * Header carrying the idempotency key of mutating requests
+ */
+export const IDEMPOTENCY_KEY_HEADER = 'Idempotency-Key';
+
+/**
+ * HTTP methods that change server state
+ */
+const MUTATING_METHODS = ['POST', 'PUT', 'PATCH', 'DELETE'];
+
 /**
  * Calculate exponential backoff time
  * @param retryCount - Number of retries attempted so far
@@ -39,7 +72,7 @@ function calculateBackoff(retryCount: number, initialDelay: number): number {
  * @param ms - Time in milliseconds
  * @returns Promise that resolves after the delay
  */
-function sleep(ms: number): Promise<void> {
+export function sleep(ms: number): Promise<void> {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
@@ -76,6 +109,75 @@ function normalizePath(url: string): string {
   return `/${pathWithoutQuery}`;
 }
 
+/**
+ * Serialize query parameters
+ *
+ * Arrays are sent as repeated keys (`id=a&id=b`), nested objects with bracket keys
+ * (`createdAt[from]=...`) and dates as ISO strings. Undefined and null values are skipped.
+ *
+ * @param params - Query parameters
+ * @returns Query string without the leading question mark
+ */
+export function serializeQuery(params: Record<string, any> = {}): string {
+  const parts: string[] = [];
+
+  const append = (key: string, value: any): void => {
+    if (value === undefined || value === null) return;
+
+    if (value instanceof Date) {
+      parts.push(`${encodeQueryKey(key)}=${encodeURIComponent(value.toISOString())}`);
+    } else if (Array.isArray(value)) {
+      value.forEach((item) => append(key, item));
+    } else if (typeof value === 'object') {
+      Object.entries(value).forEach(([name, item]) => append(`${key}[${name}]`, item));
+    } else {
+      parts.push(`${encodeQueryKey(key)}=${encodeURIComponent(String(value))}`);
+    }
+  };
+
+  Object.entries(params).forEach(([key, value]) => append(key, value));
+  return parts.join('&');
+}
+
+/**
+ * Encode a query parameter name, keeping the brackets of nested keys readable
+ * @param key - Parameter name
+ * @returns Encoded parameter name
+ */
+function encodeQueryKey(key: string): string {
+  return encodeURIComponent(key).replace(/%5B/g, '[').replace(/%5D/g, ']');
+}
+
+/**
+ * Read the body of a failed streamed request in place, so that the API error details can be
+ * parsed and logged and the socket is released
+ * @param error - Error from request
+ */
+async function readStreamedErrorBody(error: any): Promise<void> {
+  const data = error.response?.data;
+  if (!(data instanceof Readable)) {
+    return;
+  }
+
+  const chunks: Buffer[] = [];
+  try {
+    for await (const chunk of data) {
+      chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+    }
+  } catch (readError) {
+    data.destroy();
+    error.response.data = undefined;
+    return;
+  }
+
+  const text = Buffer.concat(chunks).toString('utf8');
+  try {
+    error.response.data = JSON.parse(text);
+  } catch (parseError) {
+    error.response.data = text || undefined;
+  }
+}
+
 /**
  * API client for making HTTP requests with retry logic
  */
@@ -110,6 +212,7 @@ export class ApiClient {
         ...mergedOptions.headers,
         ...auth.getHeaders(), // This now only includes the 'revx-api-key' header
       },
+      paramsSerializer: { serialize: serializeQuery },
     });
 
     // Log requests
@@ -149,7 +252,10 @@ export class ApiClient {
         this.logger.debug(`Response: ${response.status} ${response.config.url}`, { requestId });
         return response;
       },
-      (error) => {
+      async (error) => {
+        // Streamed responses carry the error details in a body that has not been read yet
+        await readStreamedErrorBody(error);
+
         // Extract request ID from the failed request
         const customConfig = error.config as CustomRequestConfig;
         const requestId = error.config?.headers?.['X-Request-ID'] as string;
@@ -174,15 +280,25 @@ export class ApiClient {
 
   /**
    * Make a request with retry logic
-   * @param config - Request configuration
+   * @param requestConfig - Request configuration
    * @returns API response
    */
-  async request<T = any>(config: CustomRequestConfig): Promise<AxiosResponse<T>> {
+  async request<T = any>(requestConfig: CustomRequestConfig): Promise<AxiosResponse<T>> {
     let lastError;
+    const { idempotencyKey, ...config } = requestConfig;
 
     // Ensure metadata object exists
     config.metadata = config.metadata || {};
 
+    // Use one idempotency key for every attempt so a retried request is only applied once
+    if (MUTATING_METHODS.includes((config.method || 'GET').toUpperCase())) {
+      config.headers = {
+        ...config.headers,
+        [IDEMPOTENCY_KEY_HEADER]:
+          idempotencyKey || config.headers?.[IDEMPOTENCY_KEY_HEADER] || uuidv4(),
+      };
+    }
+
     for (let retry = 0; retry <= this.retries; retry++) {
       try {
         // Track retry count for telemetry
@@ -240,6 +356,55 @@ export class ApiClient {
     return response.data;
   }
 
+  /**
+   * Make a GET request that the server can answer with 304 Not Modified
+   * @param url - Endpoint URL
+   * @param params - Query parameters
+   * @param etag - ETag of the cached version, sent as If-None-Match
+   * @returns Response body and ETag, or notModified if the cached version is current
+   */
+  async getConditional<T = any>(
+    url: string,
+    params?: any,
+    etag?: string
+  ): Promise<ConditionalResponse<T>> {
+    url = this.ensureURLPrefix(url);
+    const response = await this.request<T>({
+      method: 'GET',
+      url,
+      params,
+      headers: etag ? { 'If-None-Match': etag } : undefined,
+      validateStatus: (status) => (status >= 200 && status < 300) || status === 304,
+    });
+
+    const notModified = response.status === 304;
+    return {
+      data: notModified ? undefined : response.data,
+      etag: response.headers?.etag || (notModified ? etag : undefined),
+      notModified,
+    };
+  }
+
+  /**
+   * Make a GET request for a file, returning the response body as a stream
+   * @param url - Endpoint URL
+   * @param accept - Media type of the file
+   * @param params - Query parameters
+   * @returns Readable stream of the response body
+   */
+  async getStream(url: string, accept: string, params?: any): Promise<Readable> {
+    url = this.ensureURLPrefix(url);
+    const response = await this.request<Readable>({
+      method: 'GET',
+      url,
+      params,
+      headers: { Accept: accept },
+      responseType: 'stream',
+    });
+
+    return response.data;
+  }
+
   /**
    * Make a POST request
    * @param url - Endpoint URL
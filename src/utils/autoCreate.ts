@@ -0,0 +1,146 @@
+import {
+  AutoCreateCustomersOptions,
+  BatchEventResponse,
+  BatchEventResult,
+  Customer,
+  CustomerCreateParams,
+  RequestOptions,
+  UsageRecord,
+} from '../types';
+import { BatchSender, buildBatchResponse, resultForRecord } from './batcher';
+import { isTransientError } from './errors';
+import { Logger } from './logger';
+
+/**
+ * Error messages that describe a record whose customer does not exist
+ */
+const UNKNOWN_CUSTOMER_PATTERN =
+  /unknown customer|customer[^.]*(not found|does not exist|doesn't exist|unknown)/i;
+
+/**
+ * Default check for whether a record failed because its customer does not exist
+ * @param result - Result entry of the failed record
+ * @returns Whether the customer of the record is unknown
+ */
+export function isUnknownCustomerResult(result: BatchEventResult): boolean {
+  return !!result.error && UNKNOWN_CUSTOMER_PATTERN.test(result.error);
+}
+
+/**
+ * Function creating a customer unless it already exists
+ */
+export type CustomerEnsurer = (
+  externalId: string,
+  params: CustomerCreateParams
+) => Promise<Customer>;
+
+/**
+ * Sends batches and, for records failing because their customer does not exist,
+ * creates the customer and resends only those records
+ */
+export class CustomerAutoCreator {
+  private readonly provider: AutoCreateCustomersOptions['provider'];
+  private readonly isUnknownCustomer: (result: BatchEventResult, record: UsageRecord) => boolean;
+  private readonly send: BatchSender;
+  private readonly ensureCustomer: CustomerEnsurer;
+  private readonly logger: Logger;
+
+  /**
+   * Create a new customer auto-creator
+   * @param options - Auto-creation options
+   * @param send - Function used to send a batch of records
+   * @param ensureCustomer - Function used to create a missing customer
+   * @param logger - Logger instance
+   */
+  constructor(
+    options: AutoCreateCustomersOptions,
+    send: BatchSender,
+    ensureCustomer: CustomerEnsurer,
+    logger: Logger
+  ) {
+    this.provider = options.provider;
+    this.isUnknownCustomer = options.isUnknownCustomer || isUnknownCustomerResult;
+    this.send = send;
+    this.ensureCustomer = ensureCustomer;
+    this.logger = logger;
+  }
+
+  /**
+   * Send records, creating unknown customers and resending their records once
+   *
+   * Records whose customer the provider declines, or whose customer could not be
+   * created, keep their original failure. If the resend request fails, only the resent
+   * records are reported as failed.
+   *
+   * @param records - Records to send
+   * @param options - Request options for the first request
+   * @returns Merged response with results in the original record order
+   */
+  async deliver(records: UsageRecord[], options?: RequestOptions): Promise<BatchEventResponse> {
+    const response = await this.send(records, options);
+    const results = records.map((record, index) => resultForRecord(response, index, record));
+
+    // Group the records of unknown customers by customer
+    const unknown = new Map<string, number[]>();
+    results.forEach((result, index) => {
+      if (!result.success && this.isUnknownCustomer(result, records[index])) {
+        const externalId = records[index].customerExternalId;
+        unknown.set(externalId, [...(unknown.get(externalId) || []), index]);
+      }
+    });
+    if (unknown.size === 0) return response;
+
+    const created = await Promise.all(
+      Array.from(unknown.entries()).map(async ([externalId, indexes]) =>
+        (await this.createCustomer(externalId, records[indexes[0]])) ? indexes : []
+      )
+    );
+    const resendIndexes = ([] as number[]).concat(...created).sort((a, b) => a - b);
+    if (resendIndexes.length === 0) return buildBatchResponse(results);
+
+    // Records keep their idempotency keys, so resending never records them twice
+    this.logger.info(`Resending ${resendIndexes.length} usage records for created customers`);
+    try {
+      const resendResponse = await this.send(resendIndexes.map((index) => records[index]));
+      resendIndexes.forEach((recordIndex, position) => {
+        results[recordIndex] = resultForRecord(resendResponse, position, records[recordIndex]);
+      });
+    } catch (error: any) {
+      // The records of the first request were recorded, so only the resent ones failed
+      this.logger.warn('Resending usage records for created customers failed', { error });
+      resendIndexes.forEach((recordIndex) => {
+        results[recordIndex] = {
+          success: false,
+          error: error.message || 'Resend failed',
+          retryable: isTransientError(error),
+          originalData: records[recordIndex],
+        };
+      });
+    }
+
+    return buildBatchResponse(results);
+  }
+
+  /**
+   * Create a missing customer with the parameters from the provider
+   * @param externalId - External ID of the customer
+   * @param record - First record referencing the customer
+   * @returns Whether the customer exists now
+   */
+  private async createCustomer(externalId: string, record: UsageRecord): Promise<boolean> {
+    try {
+      const params = await this.provider(externalId, record);
+      if (!params) {
+        this.logger.debug(`No customer parameters provided for ${externalId}, not creating it`);
+        return false;
+      }
+
+      this.logger.info(`Creating unknown customer ${externalId} referenced by usage records`);
+      await this.ensureCustomer(externalId, params);
+      return true;
+    } catch (error) {
+      this.logger.warn(`Could not create customer ${externalId}`, { error });
+      return false;
+    }
+  }
+}
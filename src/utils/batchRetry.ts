@@ -0,0 +1,139 @@
+import {
+  BatchEventResponse,
+  BatchEventResult,
+  BatchRecordFailure,
+  BatchRetryOptions,
+  RequestOptions,
+  UsageRecord,
+} from '../types';
+import { sleep } from './api';
+import { BatchSender, buildBatchResponse, resultForRecord } from './batcher';
+import { RevMaxPartialBatchError, isTransientError } from './errors';
+import { Logger } from './logger';
+
+/**
+ * Default batch retry options
+ */
+const DEFAULT_BATCH_RETRY_OPTIONS: Required<Omit<BatchRetryOptions, 'isRetryable'>> = {
+  enabled: false,
+  maxAttempts: 3,
+  retryDelay: 500,
+};
+
+/**
+ * Error messages that usually describe a transient failure
+ */
+const TRANSIENT_ERROR_PATTERN =
+  /timeout|timed out|temporar|unavailable|rate limit|too many requests|try again|internal/i;
+
+/**
+ * Default check for whether a failed record may succeed when resent
+ * @param result - Result entry of the failed record
+ * @returns Whether the record should be resent
+ */
+export function isRetryableResult(result: BatchEventResult): boolean {
+  if (typeof result.retryable === 'boolean') {
+    return result.retryable;
+  }
+
+  return !!result.error && TRANSIENT_ERROR_PATTERN.test(result.error);
+}
+
+/**
+ * Sends batches and resends only the records that failed with a retryable error
+ */
+export class BatchRetrier {
+  private readonly options: Required<Omit<BatchRetryOptions, 'isRetryable'>>;
+  private readonly isRetryable: (result: BatchEventResult, record: UsageRecord) => boolean;
+  private readonly send: BatchSender;
+  private readonly logger: Logger;
+
+  /**
+   * Create a new batch retrier
+   * @param options - Batch retry options
+   * @param send - Function used to send a batch of records
+   * @param logger - Logger instance
+   */
+  constructor(options: BatchRetryOptions, send: BatchSender, logger: Logger) {
+    this.options = { ...DEFAULT_BATCH_RETRY_OPTIONS, ...options };
+    this.isRetryable = options.isRetryable || isRetryableResult;
+    this.send = send;
+    this.logger = logger;
+  }
+
+  /**
+   * Send records, resending retryable failures until they succeed or run out of attempts
+   * Records keep their idempotency keys, so resending never records them twice. A resend
+   * that fails as a whole marks only the resent records as failed.
+   * @param records - Records to send
+   * @param options - Request options for the first attempt
+   * @returns Merged response with results in the original record order
+   */
+  async deliver(records: UsageRecord[], options?: RequestOptions): Promise<BatchEventResponse> {
+    const response = await this.send(records, options);
+    const results = records.map((record, index) => resultForRecord(response, index, record));
+
+    for (let attempt = 1; attempt < this.options.maxAttempts; attempt++) {
+      const retryIndexes: number[] = [];
+      results.forEach((result, index) => {
+        if (!result.success && this.isRetryable(result, records[index])) {
+          retryIndexes.push(index);
+        }
+      });
+      if (retryIndexes.length === 0) break;
+
+      await sleep(this.options.retryDelay * Math.pow(2, attempt - 1));
+      this.logger.info(`Resending ${retryIndexes.length} failed usage records`, { attempt });
+
+      try {
+        const retryResponse = await this.send(retryIndexes.map((index) => records[index]));
+        retryIndexes.forEach((recordIndex, position) => {
+          results[recordIndex] = resultForRecord(retryResponse, position, records[recordIndex]);
+        });
+      } catch (error: any) {
+        // Records recorded by earlier requests must still be reported as recorded
+        retryIndexes.forEach((recordIndex) => {
+          results[recordIndex] = {
+            success: false,
+            error: error.message || 'Resend failed',
+            retryable: isTransientError(error),
+            originalData: records[recordIndex],
+          };
+        });
+      }
+    }
+
+    return buildBatchResponse(results);
+  }
+
+  /**
+   * Throw if any record of a merged response failed
+   * @param records - Records that were sent
+   * @param response - Merged response
+   * @throws RevMaxPartialBatchError pairing each failure with its record
+   */
+  assertSucceeded(records: UsageRecord[], response: BatchEventResponse): void {
+    if (response.failureCount === 0) return;
+
+    const failures: BatchRecordFailure[] = [];
+    response.results.forEach((result, index) => {
+      if (!result.success) {
+        failures.push({
+          record: records[index],
+          error: result.error || 'Unknown error',
+          retryable: this.isRetryable(result, records[index]),
+          ...(result.spooled && { spooled: true }),
+        });
+      }
+    });
+
+    // The batch as a whole only counts as failed when nothing was recorded
+    const mergedResponse = { ...response, success: response.successCount > 0 };
+    const message =
+      response.successCount > 0
+        ? `${response.failureCount} of ${response.totalRecords} usage records failed`
+        : `All ${response.totalRecords} usage records failed`;
+
+    throw new RevMaxPartialBatchError(message, failures, mergedResponse);
+  }
+}
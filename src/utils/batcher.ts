@@ -0,0 +1,184 @@
+import {
+  BatchEventResponse,
+  BatchEventResult,
+  BatchingOptions,
+  RequestOptions,
+  UsageRecord,
+} from '../types';
+import { RevMaxError } from './errors';
+import { Logger } from './logger';
+
+/**
+ * Function that sends a batch of records to the API
+ */
+export type BatchSender = (
+  records: UsageRecord[],
+  options?: RequestOptions
+) => Promise<BatchEventResponse>;
+
+/**
+ * Default batching options
+ */
+const DEFAULT_BATCHING_OPTIONS: Required<BatchingOptions> = {
+  enabled: false,
+  maxBatchSize: 100,
+  flushInterval: 1000,
+};
+
+/**
+ * A queued record together with the callbacks of its pending promise
+ */
+interface QueuedRecord {
+  record: UsageRecord;
+  resolve: (result: BatchEventResult) => void;
+  reject: (error: any) => void;
+}
+
+/**
+ * Build a batch response from a list of per-record results
+ * @param results - Results for each record, in submission order
+ * @returns Batch response summarizing the results
+ */
+export function buildBatchResponse(results: BatchEventResult[]): BatchEventResponse {
+  const successCount = results.filter((result) => result.success).length;
+
+  return {
+    success: successCount === results.length,
+    totalRecords: results.length,
+    successCount,
+    failureCount: results.length - successCount,
+    results,
+  };
+}
+
+/**
+ * Get the result entry of a record, tolerating responses with missing entries
+ * @param response - Batch response
+ * @param index - Position of the record in the request
+ * @param record - Record that was sent
+ * @returns Result entry of the record, or a failure when the API returned none
+ */
+export function resultForRecord(
+  response: BatchEventResponse,
+  index: number,
+  record: UsageRecord
+): BatchEventResult {
+  return (
+    (response.results || [])[index] || {
+      success: false,
+      error: 'No result returned for record',
+      originalData: record,
+    }
+  );
+}
+
+/**
+ * In-memory queue that sends usage records in batches, by size and by interval
+ */
+export class EventBatcher {
+  private readonly maxBatchSize: number;
+  private readonly flushInterval: number;
+  private readonly send: BatchSender;
+  private readonly logger: Logger;
+  private queue: QueuedRecord[] = [];
+  private timer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> = Promise.resolve();
+  private closed: boolean = false;
+
+  /**
+   * Create a new event batcher
+   * @param options - Batching options
+   * @param send - Function used to send a batch of records
+   * @param logger - Logger instance
+   */
+  constructor(options: BatchingOptions, send: BatchSender, logger: Logger) {
+    const mergedOptions = { ...DEFAULT_BATCHING_OPTIONS, ...options };
+    this.maxBatchSize = Math.max(1, mergedOptions.maxBatchSize);
+    this.flushInterval = mergedOptions.flushInterval;
+    this.send = send;
+    this.logger = logger;
+
+    if (this.flushInterval > 0) {
+      this.timer = setInterval(() => {
+        this.flush().catch((error) => {
+          this.logger.error('Background flush failed', { error });
+        });
+      }, this.flushInterval);
+
+      // Don't keep the process alive just for the flush timer
+      this.timer.unref();
+    }
+  }
+
+  /**
+   * Number of records waiting to be sent
+   */
+  get size(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Queue a record for sending
+   * @param record - Usage record to queue
+   * @returns Promise settling with the result entry of the record
+   * @throws RevMaxError if the batcher has been shut down
+   */
+  add(record: UsageRecord): Promise<BatchEventResult> {
+    if (this.closed) {
+      return Promise.reject(new RevMaxError('Event batcher has been shut down'));
+    }
+
+    const result = new Promise<BatchEventResult>((resolve, reject) => {
+      this.queue.push({ record, resolve, reject });
+    });
+
+    if (this.queue.length >= this.maxBatchSize) {
+      this.flush().catch((error) => {
+        this.logger.error('Size-triggered flush failed', { error });
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Send every queued record
+   * Flushes are serialized, so records are sent in the order they were queued
+   * @returns Promise resolving once the queued records have been sent
+   */
+  flush(): Promise<void> {
+    this.flushing = this.flushing.then(() => this.drain());
+    return this.flushing;
+  }
+
+  /**
+   * Stop the background timer and send everything that is left
+   * @returns Promise resolving once the queue is empty
+   */
+  async shutdown(): Promise<void> {
+    this.closed = true;
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    await this.flush();
+  }
+
+  /**
+   * Send queued records in batches of at most maxBatchSize
+   */
+  private async drain(): Promise<void> {
+    while (this.queue.length > 0) {
+      const batch = this.queue.splice(0, this.maxBatchSize);
+      this.logger.debug(`Flushing ${batch.length} buffered usage records`);
+
+      try {
+        const response = await this.send(batch.map((item) => item.record));
+        batch.forEach((item, index) => item.resolve(resultForRecord(response, index, item.record)));
+      } catch (error) {
+        batch.forEach((item) => item.reject(error));
+      }
+    }
+  }
+}
@@ -0,0 +1,138 @@
+import { CustomerCacheOptions } from '../types';
+
+/**
+ * Default customer cache options
+ */
+const DEFAULT_CUSTOMER_CACHE_OPTIONS: Required<CustomerCacheOptions> = {
+  enabled: false,
+  ttl: 60000,
+  maxSize: 1000,
+  revalidate: true,
+};
+
+/**
+ * Cached customer with its validator
+ */
+export interface CacheEntry<T> {
+  value: T;
+  etag?: string;
+  expiresAt: number;
+}
+
+/**
+ * Least recently used cache of customers with a TTL, keyed by ID and external ID
+ *
+ * Expired entries are kept until they are evicted, so they can be revalidated with their ETag.
+ */
+export class CustomerCache<T extends { id: string; externalId?: string }> {
+  private readonly options: Required<CustomerCacheOptions>;
+  private readonly entries: Map<string, CacheEntry<T>> = new Map();
+  private readonly idsByExternalId: Map<string, string> = new Map();
+
+  /**
+   * Create a new customer cache
+   * @param options - Customer cache options
+   */
+  constructor(options: CustomerCacheOptions) {
+    this.options = { ...DEFAULT_CUSTOMER_CACHE_OPTIONS, ...options };
+  }
+
+  /**
+   * Whether expired entries are revalidated with their ETag
+   */
+  get revalidate(): boolean {
+    return this.options.revalidate;
+  }
+
+  /**
+   * Number of cached customers
+   */
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Get a cached customer by ID, fresh or expired
+   * @param id - Customer ID
+   * @returns Cache entry, or undefined if the customer is not cached
+   */
+  get(id: string): CacheEntry<T> | undefined {
+    const entry = this.entries.get(id);
+    if (entry) {
+      // Mark as most recently used
+      this.entries.delete(id);
+      this.entries.set(id, entry);
+    }
+    return entry;
+  }
+
+  /**
+   * Get the ID of a cached customer by external ID
+   * @param externalId - External ID of the customer
+   * @returns Customer ID, or undefined if the customer is not cached
+   */
+  getId(externalId: string): string | undefined {
+    return this.idsByExternalId.get(externalId);
+  }
+
+  /**
+   * Check if a cache entry can be used without asking the API
+   * @param entry - Cache entry
+   * @returns Whether the entry has not expired
+   */
+  isFresh(entry: CacheEntry<T>): boolean {
+    return entry.expiresAt > Date.now();
+  }
+
+  /**
+   * Cache a customer
+   * @param value - Customer
+   * @param etag - ETag sent by the API for the customer
+   */
+  set(value: T, etag?: string): void {
+    this.invalidate(value.id);
+    this.entries.set(value.id, { value, etag, expiresAt: Date.now() + this.options.ttl });
+    if (value.externalId) {
+      this.idsByExternalId.set(value.externalId, value.id);
+    }
+
+    while (this.entries.size > this.options.maxSize) {
+      const oldest = this.entries.keys().next().value as string;
+      this.invalidate(oldest);
+    }
+  }
+
+  /**
+   * Extend the lifetime of a customer the API confirmed as unchanged
+   * @param id - Customer ID
+   */
+  refresh(id: string): void {
+    const entry = this.entries.get(id);
+    if (entry) {
+      entry.expiresAt = Date.now() + this.options.ttl;
+    }
+  }
+
+  /**
+   * Remove a customer from the cache
+   * @param id - Customer ID
+   */
+  invalidate(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry) return;
+
+    this.entries.delete(id);
+    const externalId = entry.value.externalId;
+    if (externalId && this.idsByExternalId.get(externalId) === id) {
+      this.idsByExternalId.delete(externalId);
+    }
+  }
+
+  /**
+   * Remove every customer from the cache
+   */
+  clear(): void {
+    this.entries.clear();
+    this.idsByExternalId.clear();
+  }
+}
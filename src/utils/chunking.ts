@@ -0,0 +1,147 @@
+import {
+  BatchEventResponse,
+  BatchEventResult,
+  ChunkingOptions,
+  ChunkProgress,
+  TrackEventOptions,
+  UsageRecord,
+} from '../types';
+import { BatchSender, buildBatchResponse, resultForRecord } from './batcher';
+import { RevMaxSpooledError, isTransientError } from './errors';
+import { Logger } from './logger';
+
+/**
+ * Default chunking options
+ */
+const DEFAULT_CHUNKING_OPTIONS: Required<ChunkingOptions> = {
+  chunkSize: 500,
+  concurrency: 4,
+};
+
+/**
+ * Uploads large batches of usage records in chunks with limited concurrency
+ */
+export class ChunkedUploader {
+  private readonly chunkSize: number;
+  private readonly concurrency: number;
+  private readonly send: BatchSender;
+  private readonly logger: Logger;
+
+  /**
+   * Create a new chunked uploader
+   * @param options - Chunking options
+   * @param send - Function used to send a batch of records
+   * @param logger - Logger instance
+   */
+  constructor(options: ChunkingOptions, send: BatchSender, logger: Logger) {
+    const mergedOptions = { ...DEFAULT_CHUNKING_OPTIONS, ...options };
+    this.chunkSize = Math.max(1, mergedOptions.chunkSize);
+    this.concurrency = Math.max(1, mergedOptions.concurrency);
+    this.send = send;
+    this.logger = logger;
+  }
+
+  /**
+   * Upload records, splitting them into chunks when there are more than chunkSize
+   *
+   * A chunk whose request fails is reported as failed results for its records, so the
+   * other chunks are not lost; records kept in the spool are flagged as spooled. If every
+   * chunk fails, the first error is thrown instead, or a RevMaxSpooledError listing every
+   * spooled record when any chunk was spooled.
+   *
+   * @param records - Records to upload
+   * @param options - Track event options
+   * @returns Merged response with results in the original record order
+   */
+  async upload(records: UsageRecord[], options?: TrackEventOptions): Promise<BatchEventResponse> {
+    if (records.length <= this.chunkSize) {
+      const response = await this.send(
+        records,
+        options && { idempotencyKey: options.idempotencyKey }
+      );
+      options?.onProgress?.({
+        completedChunks: 1,
+        totalChunks: 1,
+        completedRecords: records.length,
+        totalRecords: records.length,
+        failedRecords: response.failureCount || 0,
+      });
+      return response;
+    }
+
+    const chunks: UsageRecord[][] = [];
+    for (let start = 0; start < records.length; start += this.chunkSize) {
+      chunks.push(records.slice(start, start + this.chunkSize));
+    }
+
+    this.logger.info(`Uploading ${records.length} usage records in ${chunks.length} chunks`, {
+      concurrency: this.concurrency,
+    });
+
+    const chunkResults: BatchEventResult[][] = new Array(chunks.length);
+    const progress: ChunkProgress = {
+      completedChunks: 0,
+      totalChunks: chunks.length,
+      completedRecords: 0,
+      totalRecords: records.length,
+      failedRecords: 0,
+    };
+    let firstError: any = null;
+    const spooledErrors: RevMaxSpooledError[] = [];
+    let failedChunks = 0;
+    let nextChunk = 0;
+
+    const worker = async (): Promise<void> => {
+      while (nextChunk < chunks.length) {
+        const index = nextChunk++;
+        const chunk = chunks[index];
+
+        try {
+          // Each chunk is a different request body, so it needs its own idempotency key
+          const response = await this.send(chunk, {
+            idempotencyKey: options?.idempotencyKey && `${options.idempotencyKey}:${index}`,
+          });
+          chunkResults[index] = chunk.map((record, position) =>
+            resultForRecord(response, position, record)
+          );
+        } catch (error: any) {
+          firstError = firstError || error;
+          failedChunks++;
+          const spooled = error instanceof RevMaxSpooledError;
+          if (spooled) {
+            spooledErrors.push(error);
+          }
+          chunkResults[index] = chunk.map((record) => ({
+            success: false,
+            error: error.message || 'Chunk upload failed',
+            retryable: isTransientError(error),
+            ...(spooled && { spooled: true }),
+            originalData: record,
+          }));
+        }
+
+        progress.completedChunks++;
+        progress.completedRecords += chunk.length;
+        progress.failedRecords += chunkResults[index].filter((result) => !result.success).length;
+        options?.onProgress?.({ ...progress });
+      }
+    };
+
+    await Promise.all(
+      Array.from({ length: Math.min(this.concurrency, chunks.length) }, () => worker())
+    );
+
+    if (failedChunks === chunks.length) {
+      if (spooledErrors.length > 0) {
+        throw new RevMaxSpooledError(
+          spooledErrors[0].message,
+          ([] as string[]).concat(...spooledErrors.map((error) => error.idempotencyKeys)),
+          spooledErrors[0].cause
+        );
+      }
+      throw firstError;
+    }
+
+    return buildBatchResponse(([] as BatchEventResult[]).concat(...chunkResults));
+  }
+}
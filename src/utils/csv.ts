@@ -0,0 +1,63 @@
+/**
+ * Parse CSV text into one object per line, keyed by the header row
+ *
+ * Supports quoted fields containing delimiters, line breaks and doubled quotes.
+ * Empty lines are skipped.
+ *
+ * @param text - CSV text
+ * @param delimiter - Field delimiter
+ * @returns Rows keyed by column name
+ */
+export function parseCsv(text: string, delimiter: string = ','): Record<string, string>[] {
+  const lines: string[][] = [];
+  let line: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  // Strip the byte order mark that spreadsheet exports often start with
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (quoted) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      line.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      line.push(field);
+      lines.push(line);
+      line = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || line.length > 0) {
+    line.push(field);
+    lines.push(line);
+  }
+
+  const [header, ...rows] = lines.filter((fields) => fields.some((value) => value.trim() !== ''));
+  if (!header) return [];
+
+  const columns = header.map((column) => column.trim());
+  return rows.map((fields) =>
+    columns.reduce<Record<string, string>>((row, column, index) => {
+      row[column] = fields[index] ?? '';
+      return row;
+    }, {})
+  );
+}
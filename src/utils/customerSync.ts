@@ -0,0 +1,107 @@
+import {
+  Customer,
+  CustomerColumnMapping,
+  CustomerCreateParams,
+  CustomerSyncRow,
+  CustomerUpdateParams,
+  Metadata,
+} from '../types';
+
+/**
+ * Customer fields read from the input rows by the default mapping
+ */
+const MAPPED_FIELDS: Array<'name' | 'email' | 'externalId'> = ['name', 'email', 'externalId'];
+
+/**
+ * Prefix of the columns collected into customer metadata
+ */
+const METADATA_PREFIX = 'metadata.';
+
+/**
+ * Check if a cell has no value
+ * @param value - Cell value
+ * @returns Whether the value is missing or an empty string
+ */
+function isEmpty(value: any): boolean {
+  return (
+    value === undefined || value === null || (typeof value === 'string' && value.trim() === '')
+  );
+}
+
+/**
+ * Map an input row onto customer parameters using a column mapping
+ *
+ * Metadata read from the row is not checked against the metadata type at runtime.
+ *
+ * @param row - Input row
+ * @param columns - Column to read each field from
+ * @returns Customer parameters (name may be missing if the row has none)
+ */
+export function mapCustomerRow<M extends Metadata = Metadata>(
+  row: CustomerSyncRow,
+  columns: CustomerColumnMapping = {}
+): Partial<CustomerCreateParams<M>> {
+  const params: Partial<CustomerCreateParams<M>> = {};
+
+  for (const field of MAPPED_FIELDS) {
+    const value = row[columns[field] || field];
+    if (!isEmpty(value)) {
+      params[field] = typeof value === 'string' ? value.trim() : String(value);
+    }
+  }
+
+  const metadata: Record<string, any> = {};
+  if (row.metadata && typeof row.metadata === 'object' && !columns.metadata) {
+    Object.assign(metadata, row.metadata);
+  } else if (columns.metadata && row[columns.metadata]) {
+    const value = row[columns.metadata];
+    Object.assign(metadata, typeof value === 'string' ? JSON.parse(value) : value);
+  }
+
+  for (const [column, value] of Object.entries(row)) {
+    if (column.startsWith(METADATA_PREFIX) && !isEmpty(value)) {
+      metadata[column.slice(METADATA_PREFIX.length)] = value;
+    }
+  }
+
+  if (Object.keys(metadata).length > 0) {
+    params.metadata = metadata as M;
+  }
+
+  return params;
+}
+
+/**
+ * Compute the update needed to bring an existing customer in line with the input
+ *
+ * Only fields present in the input are compared. Metadata keys from the input are merged
+ * into the existing metadata, so keys that are only set on the customer are kept.
+ *
+ * @param existing - Existing customer
+ * @param params - Customer parameters from the input
+ * @returns Fields to update, or null if the customer is up to date
+ */
+export function diffCustomer<M extends Metadata = Metadata>(
+  existing: Customer<M>,
+  params: Partial<CustomerCreateParams<M>>
+): CustomerUpdateParams<M> | null {
+  const changes: CustomerUpdateParams<M> = {};
+
+  for (const field of MAPPED_FIELDS) {
+    if (params[field] !== undefined && params[field] !== existing[field]) {
+      changes[field] = params[field];
+    }
+  }
+
+  if (params.metadata) {
+    const current: Metadata = existing.metadata || {};
+    const changed = Object.keys(params.metadata).some(
+      (key) => JSON.stringify(params.metadata![key]) !== JSON.stringify(current[key])
+    );
+    if (changed) {
+      changes.metadata = { ...current, ...params.metadata } as M;
+    }
+  }
+
+  return Object.keys(changes).length > 0 ? changes : null;
+}
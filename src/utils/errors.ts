@@ -1,3 +1,5 @@
+import { BatchEventResponse, BatchRecordFailure } from '../types';
+
 /**
  * Base error class for RevMax SDK errors
  */
@@ -112,6 +114,69 @@ export class RevMaxValidationError extends RevMaxError {
   }
 }
 
+/**
+ * Error thrown when records of a usage batch could not be recorded
+ */
+export class RevMaxPartialBatchError extends RevMaxError {
+  /**
+   * Failed records paired with their errors
+   */
+  public readonly failures: BatchRecordFailure[];
+
+  /**
+   * Merged response for the whole batch, including the successful records
+   */
+  public readonly response: BatchEventResponse;
+
+  constructor(
+    message: string,
+    failures: BatchRecordFailure[],
+    response: BatchEventResponse,
+    metadata: Record<string, any> = {}
+  ) {
+    super(message, metadata);
+    this.name = 'RevMaxPartialBatchError';
+    this.failures = failures;
+    this.response = response;
+
+    // Fix for correct instanceof checks in TypeScript
+    Object.setPrototypeOf(this, RevMaxPartialBatchError.prototype);
+  }
+}
+
+/**
+ * Error thrown when usage records could not be delivered but were kept in the spool
+ *
+ * The records are replayed with the same idempotency keys, so tracking them again would bill
+ * them twice.
+ */
+export class RevMaxSpooledError extends RevMaxError {
+  /**
+   * Idempotency keys of the records kept in the spool
+   */
+  public readonly idempotencyKeys: string[];
+
+  /**
+   * Error of the failed delivery attempt
+   */
+  public readonly cause: unknown;
+
+  constructor(
+    message: string,
+    idempotencyKeys: string[],
+    cause: unknown,
+    metadata: Record<string, any> = {}
+  ) {
+    super(message, metadata);
+    this.name = 'RevMaxSpooledError';
+    this.idempotencyKeys = idempotencyKeys;
+    this.cause = cause;
+
+    // Fix for correct instanceof checks in TypeScript
+    Object.setPrototypeOf(this, RevMaxSpooledError.prototype);
+  }
+}
+
 /**
  * Error thrown when a resource is not found
  */
@@ -125,6 +190,22 @@ export class RevMaxNotFoundError extends RevMaxApiError {
   }
 }
 
+/**
+ * Error thrown when a webhook signature cannot be verified
+ */
+export class RevMaxSignatureVerificationError extends RevMaxError {
+  constructor(
+    message: string = 'Webhook signature verification failed',
+    metadata: Record<string, any> = {}
+  ) {
+    super(message, metadata);
+    this.name = 'RevMaxSignatureVerificationError';
+
+    // Fix for correct instanceof checks in TypeScript
+    Object.setPrototypeOf(this, RevMaxSignatureVerificationError.prototype);
+  }
+}
+
 /**
  * Error thrown when initialization fails
  */
@@ -141,6 +222,21 @@ export class RevMaxInitializationError extends RevMaxError {
   }
 }
 
+/**
+ * Check if an error is transient, meaning the same request may succeed later
+ * @param error - Error thrown by an API request
+ * @returns Whether the error is a network, rate limit or server error
+ */
+export function isTransientError(error: any): boolean {
+  if (error instanceof RevMaxApiError) {
+    const statusCode = error.statusCode;
+    return !statusCode || statusCode === 429 || statusCode >= 500;
+  }
+
+  // Network and timeout errors are surfaced as base RevMaxErrors
+  return error instanceof RevMaxError && error.name === 'RevMaxError';
+}
+
 /**
  * Parse API error response into appropriate error object
  * @param error - Error from API request
@@ -0,0 +1,70 @@
+import { AutoPaginationOptions, PaginatedResponse } from '../types';
+
+/**
+ * Function that fetches one page of a list endpoint
+ */
+export type PageFetcher<T> = (page: number) => Promise<PaginatedResponse<T>>;
+
+/**
+ * Iterate over every page of a list endpoint
+ *
+ * The next page is requested while the caller processes the current one (unless prefetch
+ * is disabled), and iteration stops once maxItems items have been returned.
+ *
+ * @param fetchPage - Function fetching a page by number
+ * @param startPage - First page to fetch
+ * @param options - Auto-pagination options
+ * @returns Async iterator over pages
+ */
+export async function* iteratePages<T>(
+  fetchPage: PageFetcher<T>,
+  startPage: number = 1,
+  options: AutoPaginationOptions = {}
+): AsyncGenerator<PaginatedResponse<T>, void, undefined> {
+  const maxItems = options.maxItems ?? Infinity;
+  const prefetch = options.prefetch ?? true;
+  let remaining = maxItems;
+  let next: Promise<PaginatedResponse<T>> | null = remaining > 0 ? fetchPage(startPage) : null;
+
+  while (next) {
+    const response: PaginatedResponse<T> = await next;
+    const results = response.results || [];
+    next = null;
+
+    const pageItems = results.slice(0, remaining);
+    remaining -= pageItems.length;
+    const hasMore = response.page < response.totalPages && results.length > 0 && remaining > 0;
+
+    if (hasMore && prefetch) {
+      next = fetchPage(response.page + 1);
+      // Avoid an unhandled rejection if the caller stops before awaiting the prefetched page
+      next.catch(() => undefined);
+    }
+
+    yield pageItems.length === results.length ? response : { ...response, results: pageItems };
+
+    if (!hasMore) break;
+    if (!next) {
+      next = fetchPage(response.page + 1);
+    }
+  }
+}
+
+/**
+ * Iterate over every item of a list endpoint, page by page
+ * @param fetchPage - Function fetching a page by number
+ * @param startPage - First page to fetch
+ * @param options - Auto-pagination options
+ * @returns Async iterator over items
+ */
+export async function* iterateItems<T>(
+  fetchPage: PageFetcher<T>,
+  startPage: number = 1,
+  options: AutoPaginationOptions = {}
+): AsyncGenerator<T, void, undefined> {
+  for await (const page of iteratePages(fetchPage, startPage, options)) {
+    for (const item of page.results) {
+      yield item;
+    }
+  }
+}
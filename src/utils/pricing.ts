@@ -0,0 +1,94 @@
+import { LlmCallParams, LlmCostEstimate, LlmPriceTable, UsageCost, UsageRecord } from '../types';
+
+/**
+ * Default signal name for LLM calls
+ */
+const DEFAULT_LLM_SIGNAL = 'llm_call';
+
+/**
+ * Built-in LLM prices in USD per million tokens
+ * Override or extend them with the llmPricing client option
+ */
+export const DEFAULT_LLM_PRICES: LlmPriceTable = {
+  'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10, cachedInputPerMillion: 1.25 },
+  'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6, cachedInputPerMillion: 0.075 },
+  'claude-3-5-sonnet': { inputPerMillion: 3, outputPerMillion: 15, cachedInputPerMillion: 0.3 },
+  'claude-3-5-haiku': { inputPerMillion: 0.8, outputPerMillion: 4, cachedInputPerMillion: 0.08 },
+};
+
+/**
+ * Split the token counts of an LLM call into billable components
+ * @param params - LLM call parameters
+ * @returns Uncached input, cached input and output token counts
+ */
+function tokenCounts(params: LlmCallParams): { input: number; cached: number; output: number } {
+  const cached = params.cachedTokens || 0;
+
+  return {
+    input: Math.max(0, params.inputTokens - cached),
+    cached,
+    output: params.outputTokens || 0,
+  };
+}
+
+/**
+ * Estimate the cost of an LLM call from a price table
+ * @param params - LLM call parameters
+ * @param prices - Price table to use
+ * @returns Cost estimate, or undefined if the model has no price
+ */
+export function estimateLlmCost(
+  params: LlmCallParams,
+  prices: LlmPriceTable
+): LlmCostEstimate | undefined {
+  const pricing = prices[params.model];
+  if (!pricing) {
+    return undefined;
+  }
+
+  const tokens = tokenCounts(params);
+  const inputCost = (tokens.input * pricing.inputPerMillion) / 1e6;
+  const cachedInputCost =
+    (tokens.cached * (pricing.cachedInputPerMillion ?? pricing.inputPerMillion)) / 1e6;
+  const outputCost = (tokens.output * pricing.outputPerMillion) / 1e6;
+
+  return {
+    inputCost,
+    cachedInputCost,
+    outputCost,
+    totalCost: inputCost + cachedInputCost + outputCost,
+    currency: 'USD',
+  };
+}
+
+/**
+ * Build a usage record for an LLM call with one usageCost entry per token component
+ * @param params - LLM call parameters
+ * @param prices - Price table used for the estimated cost
+ * @returns Usage record ready to be tracked
+ */
+export function buildLlmRecord(params: LlmCallParams, prices: LlmPriceTable): UsageRecord {
+  const tokens = tokenCounts(params);
+  const usageCost: UsageCost[] = [
+    { serviceName: `${params.model}:input`, units: tokens.input },
+    { serviceName: `${params.model}:cached-input`, units: tokens.cached },
+    { serviceName: `${params.model}:output`, units: tokens.output },
+  ].filter((cost) => cost.units > 0);
+
+  const estimatedCost = estimateLlmCost(params, prices);
+
+  return {
+    customerExternalId: params.customerExternalId,
+    agentId: params.agentId,
+    signalName: params.signalName || DEFAULT_LLM_SIGNAL,
+    quantity: params.quantity ?? 1,
+    usageDate: params.usageDate,
+    idempotencyKey: params.idempotencyKey,
+    metadata: {
+      ...params.metadata,
+      model: params.model,
+      usageCost,
+      ...(estimatedCost && { estimatedCost }),
+    },
+  };
+}
@@ -0,0 +1,334 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  BatchEventResponse,
+  RequestOptions,
+  SpoolOptions,
+  SpoolStats,
+  UsageRecord,
+} from '../types';
+import { BatchSender } from './batcher';
+import { RevMaxSpooledError, isTransientError } from './errors';
+import { Logger } from './logger';
+
+/**
+ * Default spool options
+ */
+const DEFAULT_SPOOL_OPTIONS: Required<SpoolOptions> = {
+  enabled: false,
+  path: path.join(process.cwd(), '.revmax-usage-spool.jsonl'),
+  replayInterval: 30000,
+  replayBatchSize: 100,
+};
+
+/**
+ * Number of acknowledged lines after which the spool file is compacted
+ */
+const COMPACTION_THRESHOLD = 1000;
+
+/**
+ * A record waiting in the spool
+ */
+interface SpoolEntry {
+  id: string;
+  enqueuedAt: string;
+  record: UsageRecord;
+}
+
+/**
+ * A line of the spool file
+ */
+type SpoolLine = ({ op: 'add' } & SpoolEntry) | { op: 'ack'; id: string };
+
+/**
+ * File-backed write-ahead queue for usage records
+ *
+ * Every record is appended to the spool file before it is sent, or as soon as it is queued for
+ * batching, and acknowledged once the API has accepted it. Records that fail with a transient
+ * error stay in the file and are replayed in order, including after a process restart.
+ *
+ * Ordering only applies within the backlog: new records are sent right away, so they may be
+ * delivered before older records that are still waiting for replay.
+ */
+export class UsageSpool {
+  private readonly filePath: string;
+  private readonly replayBatchSize: number;
+  private readonly send: BatchSender;
+  private readonly logger: Logger;
+  private readonly pending: Map<string, SpoolEntry> = new Map();
+  private readonly inFlight: Set<string> = new Set();
+  private readonly queued: Map<UsageRecord, SpoolEntry> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+  private replaying: Promise<number> | null = null;
+  private ackedLines: number = 0;
+
+  /**
+   * Create a new spool, loading any records left by a previous process
+   * @param options - Spool options
+   * @param send - Function used to send a batch of records
+   * @param logger - Logger instance
+   */
+  constructor(options: SpoolOptions, send: BatchSender, logger: Logger) {
+    const mergedOptions = { ...DEFAULT_SPOOL_OPTIONS, ...options };
+    this.filePath = mergedOptions.path;
+    this.replayBatchSize = Math.max(1, mergedOptions.replayBatchSize);
+    this.send = send;
+    this.logger = logger;
+
+    this.load();
+
+    if (mergedOptions.replayInterval > 0) {
+      this.timer = setInterval(() => {
+        this.replay().catch((error) => {
+          this.logger.error('Spool replay failed', { error });
+        });
+      }, mergedOptions.replayInterval);
+
+      // Don't keep the process alive just for the replay timer
+      this.timer.unref();
+    }
+  }
+
+  /**
+   * Number of records waiting to be delivered
+   */
+  get size(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Write records to the spool ahead of sending them, e.g. while they wait in the batching queue
+   * They are not replayed until write() has sent them or release() has given them up
+   * @param records - Records that will be sent
+   */
+  enqueue(records: UsageRecord[]): void {
+    if (records.length === 0) return;
+
+    const entries = records.map((record) => ({
+      id: uuidv4(),
+      enqueuedAt: new Date().toISOString(),
+      record,
+    }));
+    this.append(entries.map((entry) => ({ op: 'add' as const, ...entry })));
+    entries.forEach((entry) => {
+      this.pending.set(entry.id, entry);
+      this.inFlight.add(entry.id);
+      this.queued.set(entry.record, entry);
+    });
+  }
+
+  /**
+   * Remove enqueued records that will never be sent, e.g. because the batching queue was closed
+   * Records that write() already took over are left alone
+   * @param records - Records passed to enqueue()
+   */
+  release(records: UsageRecord[]): void {
+    const ids: string[] = [];
+    records.forEach((record) => {
+      const entry = this.queued.get(record);
+      if (entry) {
+        this.queued.delete(record);
+        this.inFlight.delete(entry.id);
+        ids.push(entry.id);
+      }
+    });
+
+    if (ids.length > 0) {
+      this.ack(ids);
+    }
+  }
+
+  /**
+   * Write records to the spool unless they were enqueued, send them and acknowledge them once
+   * delivered
+   * Records that fail with a transient error stay in the spool for replay
+   * @param records - Records to send
+   * @param options - Request options for the first delivery attempt
+   * @returns Batch response from the API
+   * @throws RevMaxSpooledError if the records were kept in the spool, so callers do not resend them
+   */
+  async write(records: UsageRecord[], options?: RequestOptions): Promise<BatchEventResponse> {
+    this.enqueue(records.filter((record) => !this.queued.has(record)));
+    const entries = records.map((record) => this.queued.get(record) as SpoolEntry);
+    records.forEach((record) => this.queued.delete(record));
+
+    try {
+      const response = await this.send(records, options);
+      this.ack(entries.map((entry) => entry.id));
+      return response;
+    } catch (error) {
+      if (isTransientError(error)) {
+        this.logger.warn(`Kept ${records.length} usage records in spool for replay`, {
+          backlog: this.pending.size,
+        });
+        throw new RevMaxSpooledError(
+          `Usage records kept in spool for replay: ${(error as Error).message}`,
+          records.map((record) => record.idempotencyKey).filter((key): key is string => !!key),
+          error
+        );
+      }
+
+      // Replaying would fail the same way, so don't keep the records
+      this.ack(entries.map((entry) => entry.id));
+      throw error;
+    } finally {
+      entries.forEach((entry) => this.inFlight.delete(entry.id));
+    }
+  }
+
+  /**
+   * Send pending records in the order they were written
+   * Stops at the first transient failure so ordering is preserved for the next attempt
+   * @returns Number of records removed from the spool
+   */
+  replay(): Promise<number> {
+    if (!this.replaying) {
+      this.replaying = this.replayPending().finally(() => {
+        this.replaying = null;
+      });
+    }
+
+    return this.replaying;
+  }
+
+  /**
+   * Get backlog information
+   * @returns Spool size and oldest pending record
+   */
+  getStats(): SpoolStats {
+    const oldest = this.pending.values().next().value as SpoolEntry | undefined;
+
+    return {
+      size: this.pending.size,
+      oldestEnqueuedAt: oldest?.enqueuedAt,
+      oldestRecord: oldest ? { ...oldest.record } : undefined,
+    };
+  }
+
+  /**
+   * Stop the background replay timer
+   * Pending records stay on disk and are replayed by the next process
+   */
+  shutdown(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Replay pending records in batches
+   */
+  private async replayPending(): Promise<number> {
+    let removed = 0;
+
+    for (;;) {
+      // Records that are still being sent for the first time are not replayed
+      const entries = Array.from(this.pending.values())
+        .filter((entry) => !this.inFlight.has(entry.id))
+        .slice(0, this.replayBatchSize);
+      if (entries.length === 0) break;
+
+      try {
+        await this.send(entries.map((entry) => entry.record));
+      } catch (error) {
+        if (isTransientError(error)) {
+          this.logger.warn('API still unreachable, will replay spool later', {
+            backlog: this.pending.size,
+          });
+          break;
+        }
+
+        this.logger.error(`Dropping ${entries.length} spooled usage records`, { error });
+      }
+
+      this.ack(entries.map((entry) => entry.id));
+      removed += entries.length;
+    }
+
+    if (removed > 0) {
+      this.logger.info(`Replayed ${removed} spooled usage records`);
+    }
+
+    return removed;
+  }
+
+  /**
+   * Remove records from the spool
+   * @param ids - IDs of the delivered records
+   */
+  private ack(ids: string[]): void {
+    ids.forEach((id) => this.pending.delete(id));
+
+    if (this.pending.size === 0 || this.ackedLines + ids.length >= COMPACTION_THRESHOLD) {
+      this.compact();
+    } else {
+      this.append(ids.map((id) => ({ op: 'ack' as const, id })));
+      this.ackedLines += ids.length;
+    }
+  }
+
+  /**
+   * Append lines to the spool file
+   * @param lines - Lines to append
+   */
+  private append(lines: SpoolLine[]): void {
+    fs.appendFileSync(this.filePath, lines.map((line) => `${JSON.stringify(line)}\n`).join(''));
+  }
+
+  /**
+   * Rewrite the spool file with only the pending records
+   */
+  private compact(): void {
+    const lines = Array.from(this.pending.values()).map((entry) =>
+      JSON.stringify({ op: 'add', ...entry })
+    );
+
+    // Write to a temporary file first so a crash never leaves a truncated spool
+    const tempPath = `${this.filePath}.tmp`;
+    fs.writeFileSync(tempPath, lines.map((line) => `${line}\n`).join(''));
+    fs.renameSync(tempPath, this.filePath);
+    this.ackedLines = 0;
+  }
+
+  /**
+   * Load pending records from the spool file
+   */
+  private load(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    if (!fs.existsSync(this.filePath)) {
+      return;
+    }
+
+    const content = fs.readFileSync(this.filePath, 'utf8');
+    content.split('\n').forEach((text) => {
+      if (!text.trim()) return;
+
+      let line: SpoolLine;
+      try {
+        line = JSON.parse(text);
+      } catch (error) {
+        // A crash during a write can leave a partial last line
+        this.logger.warn('Skipping unreadable spool line');
+        return;
+      }
+
+      if (line.op === 'add') {
+        this.pending.set(line.id, {
+          id: line.id,
+          enqueuedAt: line.enqueuedAt,
+          record: line.record,
+        });
+      } else if (line.op === 'ack') {
+        this.pending.delete(line.id);
+      }
+    });
+
+    this.compact();
+
+    if (this.pending.size > 0) {
+      this.logger.info(`Loaded ${this.pending.size} pending usage records from spool`);
+    }
+  }
+}
@@ -0,0 +1,42 @@
+/**
+ * Compute the edit distance between two strings
+ * @param a - First string
+ * @param b - Second string
+ * @returns Number of single-character insertions, deletions and substitutions
+ */
+export function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, substitution);
+    }
+    previous = current;
+  }
+
+  return previous[b.length];
+}
+
+/**
+ * Find the candidate closest to a misspelled value
+ * @param value - Misspelled value
+ * @param candidates - Valid values
+ * @returns Closest candidate, or undefined if none is similar enough to be a likely typo
+ */
+export function closestMatch(value: string, candidates: Iterable<string>): string | undefined {
+  const maxDistance = Math.max(2, Math.floor(value.length / 3));
+  let best: string | undefined;
+  let bestDistance = Infinity;
+
+  for (const candidate of candidates) {
+    const distance = editDistance(value.toLowerCase(), candidate.toLowerCase());
+    if (distance < bestDistance) {
+      best = candidate;
+      bestDistance = distance;
+    }
+  }
+
+  return bestDistance <= maxDistance ? best : undefined;
+}
@@ -0,0 +1,159 @@
+import { UsageRecord } from '../types';
+import { RevMaxValidationError } from './errors';
+
+/**
+ * Validation errors keyed by field path
+ */
+export type ValidationErrors = Record<string, string[]>;
+
+/**
+ * Add an error message for a field path
+ * @param errors - Errors collected so far
+ * @param path - Field path
+ * @param message - Error message
+ */
+function addError(errors: ValidationErrors, path: string, message: string): void {
+  errors[path] = errors[path] || [];
+  errors[path].push(message);
+}
+
+/**
+ * Join a field name onto a path prefix
+ * @param prefix - Path prefix (empty for top-level fields)
+ * @param field - Field name
+ * @returns Full field path
+ */
+function joinPath(prefix: string, field: string): string {
+  return prefix ? `${prefix}.${field}` : field;
+}
+
+/**
+ * Check that a value survives JSON serialization unchanged
+ * @param value - Value to check
+ * @param path - Field path of the value
+ * @param errors - Errors collected so far
+ * @param seen - Objects on the current path, used to detect circular references
+ */
+function validateJsonValue(
+  value: any,
+  path: string,
+  errors: ValidationErrors,
+  seen: Set<object>
+): void {
+  switch (typeof value) {
+    case 'string':
+    case 'boolean':
+    case 'undefined':
+      return;
+    case 'number':
+      if (!Number.isFinite(value)) {
+        addError(errors, path, 'must be a finite number');
+      }
+      return;
+    case 'bigint':
+    case 'function':
+    case 'symbol':
+      addError(errors, path, `cannot be serialized to JSON (${typeof value})`);
+      return;
+  }
+
+  if (value === null || value instanceof Date) {
+    return;
+  }
+
+  if (seen.has(value)) {
+    addError(errors, path, 'contains a circular reference');
+    return;
+  }
+
+  seen.add(value);
+  if (Array.isArray(value)) {
+    value.forEach((item, index) => validateJsonValue(item, `${path}[${index}]`, errors, seen));
+  } else {
+    Object.keys(value).forEach((key) =>
+      validateJsonValue(value[key], `${path}.${key}`, errors, seen)
+    );
+  }
+  seen.delete(value);
+}
+
+/**
+ * Validate a usage record
+ * @param record - Usage record to validate
+ * @param prefix - Path prefix for error keys (e.g. "records[3]")
+ * @param errors - Errors collected so far
+ */
+function validateUsageRecord(record: UsageRecord, prefix: string, errors: ValidationErrors): void {
+  if (!record || typeof record !== 'object') {
+    addError(errors, prefix || 'record', 'must be an object');
+    return;
+  }
+
+  (['customerExternalId', 'agentId', 'signalName'] as const).forEach((field) => {
+    const value = record[field];
+    if (typeof value !== 'string' || value.trim() === '') {
+      addError(errors, joinPath(prefix, field), 'is required and must be a non-empty string');
+    }
+  });
+
+  if (typeof record.quantity !== 'number' || !Number.isFinite(record.quantity)) {
+    addError(errors, joinPath(prefix, 'quantity'), 'must be a finite number');
+  }
+
+  if (record.usageDate !== undefined) {
+    const time =
+      record.usageDate instanceof Date
+        ? record.usageDate.getTime()
+        : typeof record.usageDate === 'string'
+          ? Date.parse(record.usageDate)
+          : NaN;
+    if (Number.isNaN(time)) {
+      addError(errors, joinPath(prefix, 'usageDate'), 'must be a valid date or ISO date string');
+    }
+  }
+
+  if (record.metadata !== undefined) {
+    if (
+      record.metadata === null ||
+      typeof record.metadata !== 'object' ||
+      Array.isArray(record.metadata)
+    ) {
+      addError(errors, joinPath(prefix, 'metadata'), 'must be an object');
+    } else {
+      validateJsonValue(record.metadata, joinPath(prefix, 'metadata'), errors, new Set());
+    }
+  }
+
+  if (
+    record.idempotencyKey !== undefined &&
+    (typeof record.idempotencyKey !== 'string' || record.idempotencyKey === '')
+  ) {
+    addError(errors, joinPath(prefix, 'idempotencyKey'), 'must be a non-empty string');
+  }
+}
+
+/**
+ * Validate usage records before they are sent
+ * @param records - Records to validate
+ * @param isBatch - Whether the records were passed in the batch format
+ * @throws RevMaxValidationError with errors keyed by field path (e.g. "records[3].quantity")
+ */
+export function validateUsageRecords(records: UsageRecord[], isBatch: boolean): void {
+  const errors: ValidationErrors = {};
+
+  if (isBatch && !Array.isArray(records)) {
+    addError(errors, 'records', 'must be an array');
+  } else {
+    records.forEach((record, index) =>
+      validateUsageRecord(record, isBatch ? `records[${index}]` : '', errors)
+    );
+  }
+
+  const count = Object.keys(errors).length;
+  if (count > 0) {
+    throw new RevMaxValidationError(
+      `Invalid usage ${isBatch ? 'records' : 'record'}: ${count} field(s) failed validation`,
+      errors
+    );
+  }
+}
@@ -0,0 +1,117 @@
+import { Agents } from '../src/resources';
+import { ApiClient } from '../src/utils/api';
+import { RevMaxValidationError } from '../src/utils/errors';
+import { Logger } from '../src/utils/logger';
+
+// Mock ApiClient
+const mockApiClient = {
+  get: jest.fn(),
+  post: jest.fn(),
+  patch: jest.fn(),
+  delete: jest.fn(),
+} as unknown as ApiClient;
+const mockGet = mockApiClient.get as jest.Mock;
+const mockPost = mockApiClient.post as jest.Mock;
+const mockPatch = mockApiClient.patch as jest.Mock;
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+const registeredAgents = {
+  results: [
+    { id: 'agent_support', name: 'Support', status: 'active' },
+    { id: 'agent_legacy', name: 'Legacy', status: 'retired' },
+  ],
+  page: 1,
+  limit: 100,
+  totalPages: 1,
+  totalResults: 2,
+};
+
+const record = (agentId: string) => ({
+  customerExternalId: 'cust-123',
+  agentId,
+  signalName: 'api_call',
+  quantity: 1,
+});
+
+describe('Agents Resource', () => {
+  let agents: Agents;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    agents = new Agents(mockApiClient, mockLogger);
+  });
+
+  it('should create, update and retire agents', async () => {
+    mockPost.mockResolvedValue({ id: 'agent_1', name: 'Sales', status: 'active' });
+    mockPatch.mockResolvedValue({ id: 'agent_1', name: 'Inbound Sales', status: 'active' });
+
+    await agents.create({ name: 'Sales', description: 'Books meetings' });
+    await agents.update('agent_1', { name: 'Inbound Sales' });
+    await agents.retire('agent_1');
+
+    expect(mockPost).toHaveBeenCalledWith(
+      '/agents',
+      { name: 'Sales', description: 'Books meetings' },
+      undefined
+    );
+    expect(mockPatch).toHaveBeenCalledWith('/agents/agent_1', { name: 'Inbound Sales' }, undefined);
+    expect(mockPost).toHaveBeenLastCalledWith('/agents/agent_1/retire', {}, undefined);
+  });
+
+  it('should list agents with filters', async () => {
+    mockGet.mockResolvedValueOnce(registeredAgents);
+
+    await expect(agents.list({ status: 'active', limit: 100 })).resolves.toEqual(registeredAgents);
+    expect(mockGet).toHaveBeenCalledWith('/agents', { status: 'active', limit: 100 });
+  });
+
+  it('should accept records of active registered agents', async () => {
+    mockGet.mockResolvedValue(registeredAgents);
+
+    await expect(agents.validateRecords(record('agent_support'))).resolves.toBeUndefined();
+    await expect(
+      agents.validateRecords({ records: [record('agent_support')] })
+    ).resolves.toBeUndefined();
+
+    // The registry is listed once and reused
+    expect(mockGet).toHaveBeenCalledTimes(1);
+  });
+
+  it('should reject records of unknown and retired agents', async () => {
+    mockGet.mockResolvedValue(registeredAgents);
+
+    const error = await agents
+      .validateRecords({
+        records: [record('agent_support'), record('agent_typo'), record('agent_legacy')],
+      })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(RevMaxValidationError);
+    expect(error.validationErrors).toEqual({
+      'records[1].agentId': ['unknown agent "agent_typo"'],
+      'records[2].agentId': ['agent "agent_legacy" is retired'],
+    });
+  });
+
+  it('should list the registry again after an agent is created', async () => {
+    mockGet.mockResolvedValue(registeredAgents);
+    mockPost.mockResolvedValue({ id: 'agent_new', name: 'New', status: 'active' });
+
+    await agents.validateRecords(record('agent_support'));
+    await agents.create({ name: 'New' });
+    mockGet.mockResolvedValue({
+      ...registeredAgents,
+      results: [...registeredAgents.results, { id: 'agent_new', name: 'New', status: 'active' }],
+    });
+
+    await expect(agents.validateRecords(record('agent_new'))).resolves.toBeUndefined();
+    expect(mockGet).toHaveBeenCalledTimes(2);
+  });
+});
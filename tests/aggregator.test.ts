@@ -0,0 +1,150 @@
+import { Usage } from '../src/resources';
+import { ApiClient } from '../src/utils/api';
+import { Logger } from '../src/utils/logger';
+
+// Mock ApiClient
+const mockApiClient = {
+  get: jest.fn(),
+  post: jest.fn(),
+} as unknown as ApiClient;
+const mockPost = mockApiClient.post as jest.Mock;
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+const event = (signalName: string, quantity: number, metadata?: Record<string, any>) => ({
+  customerExternalId: 'cust-123',
+  agentId: 'agent-456',
+  signalName,
+  quantity,
+  metadata,
+});
+
+const echoResponse = async (_url: string, body: any) => ({
+  success: true,
+  totalRecords: body.records.length,
+  successCount: body.records.length,
+  failureCount: 0,
+  results: body.records.map((record: any) => ({
+    success: true,
+    responseData: { id: `event_${record.signalName}`, success: true },
+  })),
+});
+
+describe('Usage with aggregation', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPost.mockImplementation(echoResponse);
+  });
+
+  it('should send one summed record per customer, agent and signal', async () => {
+    const usage = new Usage(mockApiClient, mockLogger, {
+      aggregation: { enabled: true, window: 0 },
+    });
+
+    const pending = [
+      usage.trackEvent(event('tokens', 10, { model: 'a' })),
+      usage.trackEvent(event('tokens', 5, { region: 'eu' })),
+      usage.trackEvent(event('seconds', 2)),
+    ];
+    await usage.flush();
+
+    await expect(Promise.all(pending)).resolves.toEqual([
+      { id: 'event_tokens', success: true },
+      { id: 'event_tokens', success: true },
+      { id: 'event_seconds', success: true },
+    ]);
+    expect(mockPost).toHaveBeenCalledTimes(1);
+    expect(mockPost.mock.calls[0][1].records).toEqual([
+      expect.objectContaining({
+        signalName: 'tokens',
+        quantity: 15,
+        metadata: { model: 'a', region: 'eu', rawEventCount: 2 },
+      }),
+      expect.objectContaining({
+        signalName: 'seconds',
+        quantity: 2,
+        metadata: { rawEventCount: 1 },
+      }),
+    ]);
+  });
+
+  it('should apply the metadata merge rule and signal filter', async () => {
+    const usage = new Usage(mockApiClient, mockLogger, {
+      aggregation: {
+        enabled: true,
+        window: 0,
+        signals: ['tokens'],
+        mergeMetadata: 'first',
+        includeEventCount: false,
+      },
+    });
+
+    const pending = [
+      usage.trackEvent(event('tokens', 1, { model: 'a' })),
+      usage.trackEvent(event('tokens', 1, { model: 'b' })),
+    ];
+
+    // Signals that are not aggregated are sent right away
+    await usage.trackEvent(event('lead_generated', 1));
+    expect(mockPost).toHaveBeenCalledTimes(1);
+
+    await usage.shutdown();
+    await Promise.all(pending);
+
+    expect(mockPost).toHaveBeenCalledTimes(2);
+    expect(mockPost.mock.calls[1][1].records).toEqual([
+      expect.objectContaining({ quantity: 2, metadata: { model: 'a' } }),
+    ]);
+  });
+
+  it('should sum the usage costs and estimated costs of aggregated LLM calls', async () => {
+    const usage = new Usage(mockApiClient, mockLogger, {
+      aggregation: { enabled: true, window: 0 },
+    });
+    const call = (inputTokens: number, outputTokens: number) => ({
+      customerExternalId: 'cust-123',
+      agentId: 'agent-456',
+      model: 'gpt-4o-mini',
+      inputTokens,
+      outputTokens,
+    });
+    const first = usage.estimateLlmCost(call(1000, 10))!;
+    const second = usage.estimateLlmCost(call(5, 5))!;
+
+    const pending = [usage.trackLlmCall(call(1000, 10)), usage.trackLlmCall(call(5, 5))];
+    await usage.flush();
+    await Promise.all(pending);
+
+    const [sent] = mockPost.mock.calls[0][1].records;
+    expect(sent.quantity).toBe(2);
+    expect(sent.metadata.usageCost).toEqual([
+      { serviceName: 'gpt-4o-mini:input', units: 1005 },
+      { serviceName: 'gpt-4o-mini:output', units: 15 },
+    ]);
+    expect(sent.metadata.estimatedCost.currency).toBe('USD');
+    expect(sent.metadata.estimatedCost.totalCost).toBeCloseTo(first.totalCost + second.totalCost);
+    expect(sent.metadata.estimatedCost.inputCost).toBeCloseTo(first.inputCost + second.inputCost);
+  });
+
+  it('should send records with a caller-supplied idempotency key without aggregating them', async () => {
+    const usage = new Usage(mockApiClient, mockLogger, {
+      aggregation: { enabled: true, window: 0 },
+    });
+
+    await usage.trackEvent({ ...event('tokens', 10), idempotencyKey: 'evt-1' });
+    await usage.trackEvent(event('tokens', 5), { idempotencyKey: 'evt-2' });
+
+    expect(mockPost).toHaveBeenCalledTimes(2);
+    expect(mockPost.mock.calls.map((call) => call[1].records[0].idempotencyKey)).toEqual([
+      'evt-1',
+      'evt-2',
+    ]);
+    await usage.shutdown();
+  });
+});
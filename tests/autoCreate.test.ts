@@ -0,0 +1,170 @@
+import { Customers, Usage } from '../src/resources';
+import { ApiClient } from '../src/utils/api';
+import { isUnknownCustomerResult } from '../src/utils/autoCreate';
+import { RevMaxError } from '../src/utils/errors';
+import { Logger } from '../src/utils/logger';
+
+// Mock ApiClient
+const mockApiClient = {
+  get: jest.fn(),
+  post: jest.fn(),
+} as unknown as ApiClient;
+const mockPost = mockApiClient.post as jest.Mock;
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+const record = (customerExternalId: string) => ({
+  customerExternalId,
+  agentId: 'agent-456',
+  signalName: 'api_call',
+  quantity: 1,
+});
+
+// Records of customers in knownCustomers succeed, the others fail as unknown
+const knownCustomers = new Set(['known']);
+const usageResponse = (records: any[]) => {
+  const results = records.map((item) =>
+    knownCustomers.has(item.customerExternalId)
+      ? { success: true, responseData: { id: `event_${item.customerExternalId}`, success: true } }
+      : { success: false, error: `Customer ${item.customerExternalId} not found` }
+  );
+  const successCount = results.filter((result) => result.success).length;
+  return {
+    success: successCount > 0,
+    totalRecords: records.length,
+    successCount,
+    failureCount: records.length - successCount,
+    results,
+  };
+};
+
+describe('Usage with auto-created customers', () => {
+  let customers: Customers;
+  let ensureSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    knownCustomers.clear();
+    knownCustomers.add('known');
+    mockPost.mockImplementation(async (_url: string, body: any) => usageResponse(body.records));
+
+    customers = new Customers(mockApiClient, mockLogger);
+    ensureSpy = jest
+      .spyOn(customers, 'ensure')
+      .mockImplementation(async (externalId: string, params: any) => {
+        knownCustomers.add(externalId);
+        return { id: `cust_${externalId}`, externalId, ...params };
+      });
+  });
+
+  it('should create unknown customers and resend only their records', async () => {
+    const provider = jest.fn((externalId: string) => ({ name: `Customer ${externalId}` }));
+    const usage = new Usage(
+      mockApiClient,
+      mockLogger,
+      { autoCreateCustomers: { enabled: true, provider } },
+      customers
+    );
+
+    const response = await usage.trackEvent({
+      records: [record('known'), record('new'), record('new'), record('other')],
+    });
+
+    expect(response).toMatchObject({ success: true, successCount: 4, failureCount: 0 });
+    expect(provider).toHaveBeenCalledTimes(2);
+    expect(ensureSpy).toHaveBeenCalledWith('new', { name: 'Customer new' });
+    expect(ensureSpy).toHaveBeenCalledWith('other', { name: 'Customer other' });
+    expect(mockPost).toHaveBeenCalledTimes(2);
+    expect(mockPost.mock.calls[1][1].records.map((item: any) => item.customerExternalId)).toEqual([
+      'new',
+      'new',
+      'other',
+    ]);
+    // The resent records keep their idempotency keys
+    expect(mockPost.mock.calls[1][1].records[0].idempotencyKey).toBe(
+      mockPost.mock.calls[0][1].records[1].idempotencyKey
+    );
+  });
+
+  it('should leave records failed when the provider declines the customer', async () => {
+    const usage = new Usage(
+      mockApiClient,
+      mockLogger,
+      { autoCreateCustomers: { enabled: true, provider: () => null } },
+      customers
+    );
+
+    const response = await usage.trackEvent({ records: [record('known'), record('new')] });
+
+    expect(response).toMatchObject({ successCount: 1, failureCount: 1 });
+    expect(ensureSpy).not.toHaveBeenCalled();
+    expect(mockPost).toHaveBeenCalledTimes(1);
+  });
+
+  it('should leave records failed when the customer cannot be created', async () => {
+    ensureSpy.mockRejectedValueOnce(new Error('Invalid email'));
+    const usage = new Usage(
+      mockApiClient,
+      mockLogger,
+      { autoCreateCustomers: { enabled: true, provider: () => ({ name: 'New' }) } },
+      customers
+    );
+
+    const response = await usage.trackEvent({ records: [record('new')] });
+
+    expect(response).toMatchObject({ successCount: 0, failureCount: 1 });
+    expect(mockLogger.warn).toHaveBeenCalledWith('Could not create customer new', {
+      error: expect.any(Error),
+    });
+  });
+
+  it('should keep the recorded results when the resend fails', async () => {
+    mockPost
+      .mockImplementationOnce(async (_url: string, body: any) => usageResponse(body.records))
+      .mockRejectedValueOnce(new RevMaxError('read ECONNRESET'));
+    const usage = new Usage(
+      mockApiClient,
+      mockLogger,
+      { autoCreateCustomers: { enabled: true, provider: () => ({ name: 'New' }) } },
+      customers
+    );
+
+    const response = await usage.trackEvent({ records: [record('known'), record('new')] });
+
+    expect(response).toMatchObject({ success: false, successCount: 1, failureCount: 1 });
+    expect(response.results[0]).toMatchObject({ success: true });
+    expect(response.results[1]).toMatchObject({
+      success: false,
+      error: 'read ECONNRESET',
+      retryable: true,
+    });
+  });
+
+  it('should return the single event response after creating the customer', async () => {
+    const usage = new Usage(
+      mockApiClient,
+      mockLogger,
+      { autoCreateCustomers: { enabled: true, provider: () => ({ name: 'New' }) } },
+      customers
+    );
+
+    await expect(usage.trackEvent(record('new'))).resolves.toEqual({
+      id: 'event_new',
+      success: true,
+    });
+  });
+
+  it('should recognize unknown customer errors', () => {
+    expect(isUnknownCustomerResult({ success: false, error: 'Unknown customer: acme' })).toBe(true);
+    expect(isUnknownCustomerResult({ success: false, error: 'Customer does not exist' })).toBe(
+      true
+    );
+    expect(isUnknownCustomerResult({ success: false, error: 'Invalid signal name' })).toBe(false);
+  });
+});
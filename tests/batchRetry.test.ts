@@ -0,0 +1,114 @@
+import { Usage } from '../src/resources';
+import { ApiClient } from '../src/utils/api';
+import { RevMaxError, RevMaxPartialBatchError } from '../src/utils/errors';
+import { Logger } from '../src/utils/logger';
+
+// Mock ApiClient
+const mockApiClient = {
+  get: jest.fn(),
+  post: jest.fn(),
+} as unknown as ApiClient;
+const mockPost = mockApiClient.post as jest.Mock;
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+const record = (quantity: number) => ({
+  customerExternalId: 'cust-123',
+  agentId: 'agent-456',
+  signalName: 'api_call',
+  quantity,
+  idempotencyKey: `key-${quantity}`,
+});
+
+const ok = (quantity: number) => ({
+  success: true,
+  responseData: { id: `event_${quantity}`, success: true },
+});
+
+const batchResponse = (results: any[]) => ({
+  success: results.every((result) => result.success),
+  totalRecords: results.length,
+  successCount: results.filter((result) => result.success).length,
+  failureCount: results.filter((result) => !result.success).length,
+  results,
+});
+
+describe('Usage with batch retry', () => {
+  let usage: Usage;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    usage = new Usage(mockApiClient, mockLogger, {
+      batchRetry: { enabled: true, maxAttempts: 3, retryDelay: 0 },
+    });
+  });
+
+  it('should resend only the retryable failed records', async () => {
+    mockPost
+      .mockResolvedValueOnce(
+        batchResponse([ok(1), { success: false, error: 'Service temporarily unavailable' }, ok(3)])
+      )
+      .mockResolvedValueOnce(batchResponse([ok(2)]));
+
+    const result = await usage.trackEvent({ records: [record(1), record(2), record(3)] });
+
+    expect(mockPost).toHaveBeenCalledTimes(2);
+    expect(mockPost.mock.calls[1][1]).toEqual({ records: [record(2)] });
+    expect(result).toEqual(batchResponse([ok(1), ok(2), ok(3)]));
+  });
+
+  it('should report permanent failures with their original records', async () => {
+    mockPost.mockResolvedValueOnce(
+      batchResponse([ok(1), { success: false, error: 'Invalid signal name' }])
+    );
+
+    const error = await usage
+      .trackEvent({ records: [record(1), record(2)] })
+      .catch((caught) => caught);
+
+    expect(mockPost).toHaveBeenCalledTimes(1);
+    expect(error).toBeInstanceOf(RevMaxPartialBatchError);
+    expect(error.message).toBe('1 of 2 usage records failed');
+    expect(error.failures).toEqual([
+      { record: record(2), error: 'Invalid signal name', retryable: false },
+    ]);
+    expect(error.response.success).toBe(true);
+    expect(error.response.successCount).toBe(1);
+  });
+
+  it('should give up after the maximum number of attempts', async () => {
+    const failed = { success: false, error: 'timeout', retryable: true };
+    mockPost.mockResolvedValue(batchResponse([failed]));
+
+    const error = await usage.trackEvent({ records: [record(1)] }).catch((caught) => caught);
+
+    expect(mockPost).toHaveBeenCalledTimes(3);
+    expect(error).toBeInstanceOf(RevMaxPartialBatchError);
+    expect(error.message).toBe('All 1 usage records failed');
+    expect(error.response.success).toBe(false);
+  });
+
+  it('should keep the recorded results when a resend fails', async () => {
+    mockPost
+      .mockResolvedValueOnce(batchResponse([ok(1), { success: false, error: 'timeout' }]))
+      .mockRejectedValue(new RevMaxError('socket hang up'));
+
+    const error = await usage
+      .trackEvent({ records: [record(1), record(2)] })
+      .catch((caught) => caught);
+
+    expect(mockPost).toHaveBeenCalledTimes(3);
+    expect(error).toBeInstanceOf(RevMaxPartialBatchError);
+    expect(error.message).toBe('1 of 2 usage records failed');
+    expect(error.failures).toEqual([
+      { record: record(2), error: 'socket hang up', retryable: true },
+    ]);
+    expect(error.response.results[0]).toEqual(ok(1));
+  });
+});
@@ -0,0 +1,151 @@
+import { Usage } from '../src/resources';
+import { ApiClient } from '../src/utils/api';
+import { EventBatcher } from '../src/utils/batcher';
+import { Logger } from '../src/utils/logger';
+
+// Mock ApiClient
+const mockApiClient = {
+  get: jest.fn(),
+  post: jest.fn(),
+} as unknown as ApiClient;
+const mockPost = mockApiClient.post as jest.Mock;
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+const record = (quantity: number) => ({
+  customerExternalId: 'cust-123',
+  agentId: 'agent-456',
+  signalName: 'api_call',
+  quantity,
+});
+
+const okResponse = (records: any[]) => ({
+  success: true,
+  totalRecords: records.length,
+  successCount: records.length,
+  failureCount: 0,
+  results: records.map((r) => ({
+    success: true,
+    responseData: { id: `event_${r.quantity}`, success: true },
+    originalData: r,
+  })),
+});
+
+describe('EventBatcher', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should flush when the batch size is reached', async () => {
+    const send = jest.fn(async (records) => okResponse(records));
+    const batcher = new EventBatcher({ maxBatchSize: 2, flushInterval: 0 }, send, mockLogger);
+
+    const first = batcher.add(record(1));
+    const second = batcher.add(record(2));
+
+    await expect(first).resolves.toMatchObject({ responseData: { id: 'event_1' } });
+    await expect(second).resolves.toMatchObject({ responseData: { id: 'event_2' } });
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send).toHaveBeenCalledWith([record(1), record(2)]);
+  });
+
+  it('should flush on the configured interval', async () => {
+    jest.useFakeTimers();
+    try {
+      const send = jest.fn(async (records) => okResponse(records));
+      const batcher = new EventBatcher({ maxBatchSize: 10, flushInterval: 500 }, send, mockLogger);
+
+      const pending = batcher.add(record(1));
+      expect(send).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(500);
+      await expect(pending).resolves.toMatchObject({ success: true });
+      expect(send).toHaveBeenCalledTimes(1);
+
+      await batcher.shutdown();
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('should reject pending records when the request fails', async () => {
+    const send = jest.fn().mockRejectedValueOnce(new Error('Network error'));
+    const batcher = new EventBatcher({ maxBatchSize: 10, flushInterval: 0 }, send, mockLogger);
+
+    const pending = batcher.add(record(1));
+    await batcher.flush();
+
+    await expect(pending).rejects.toThrow('Network error');
+  });
+
+  it('should flush remaining records on shutdown and reject new ones', async () => {
+    const send = jest.fn(async (records) => okResponse(records));
+    const batcher = new EventBatcher({ maxBatchSize: 10, flushInterval: 0 }, send, mockLogger);
+
+    const pending = batcher.add(record(1));
+    await batcher.shutdown();
+
+    await expect(pending).resolves.toMatchObject({ success: true });
+    expect(batcher.size).toBe(0);
+    await expect(batcher.add(record(2))).rejects.toThrow('shut down');
+  });
+});
+
+describe('Usage with batching', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should buffer single events and return the matching result', async () => {
+    mockPost.mockImplementationOnce(async (_url, body) => okResponse(body.records));
+    const usage = new Usage(mockApiClient, mockLogger, {
+      batching: { enabled: true, maxBatchSize: 10, flushInterval: 0 },
+    });
+
+    const first = usage.trackEvent(record(1));
+    const second = usage.trackEvent(record(2));
+    expect(mockPost).not.toHaveBeenCalled();
+
+    await usage.flush();
+
+    await expect(first).resolves.toEqual({ id: 'event_1', success: true });
+    await expect(second).resolves.toEqual({ id: 'event_2', success: true });
+    expect(mockPost).toHaveBeenCalledTimes(1);
+    expect(mockPost).toHaveBeenCalledWith(
+      '/usage/record',
+      { records: [expect.objectContaining(record(1)), expect.objectContaining(record(2))] },
+      undefined
+    );
+  });
+
+  it('should key buffered batch records with the batch idempotency key and report progress', async () => {
+    mockPost.mockImplementationOnce(async (_url, body) => okResponse(body.records));
+    const usage = new Usage(mockApiClient, mockLogger, {
+      batching: { enabled: true, maxBatchSize: 10, flushInterval: 0 },
+    });
+    const onProgress = jest.fn();
+
+    const pending = usage.trackEvent(
+      { records: [record(1), { ...record(2), idempotencyKey: 'own-key' }] },
+      { idempotencyKey: 'batch-1', onProgress }
+    );
+    await usage.flush();
+    await pending;
+
+    const [, body] = mockPost.mock.calls[0];
+    expect(body.records.map((r: any) => r.idempotencyKey)).toEqual(['batch-1:0', 'own-key']);
+    expect(onProgress).toHaveBeenCalledWith({
+      completedChunks: 1,
+      totalChunks: 1,
+      completedRecords: 2,
+      totalRecords: 2,
+      failedRecords: 0,
+    });
+  });
+});
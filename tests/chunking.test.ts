@@ -0,0 +1,161 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Usage } from '../src/resources';
+import { ApiClient } from '../src/utils/api';
+import { RevMaxError, RevMaxSpooledError } from '../src/utils/errors';
+import { Logger } from '../src/utils/logger';
+
+// Mock ApiClient
+const mockApiClient = {
+  get: jest.fn(),
+  post: jest.fn(),
+} as unknown as ApiClient;
+const mockPost = mockApiClient.post as jest.Mock;
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+const records = Array.from({ length: 5 }, (_, index) => ({
+  customerExternalId: 'cust-123',
+  agentId: 'agent-456',
+  signalName: 'api_call',
+  quantity: index,
+}));
+
+const echoResponse = async (_url: string, body: any) => ({
+  success: true,
+  totalRecords: body.records.length,
+  successCount: body.records.length,
+  failureCount: 0,
+  results: body.records.map((record: any) => ({
+    success: true,
+    responseData: { id: `event_${record.quantity}`, success: true },
+  })),
+});
+
+describe('Usage chunked upload', () => {
+  let usage: Usage;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    usage = new Usage(mockApiClient, mockLogger, { chunking: { chunkSize: 2, concurrency: 2 } });
+  });
+
+  it('should split large batches and keep results in record order', async () => {
+    // Make the first chunk finish last
+    mockPost.mockImplementation(async (url: string, body: any) => {
+      if (body.records[0].quantity === 0) {
+        await new Promise((resolve) => setTimeout(resolve, 10));
+      }
+      return echoResponse(url, body);
+    });
+    const onProgress = jest.fn();
+
+    const result: any = await usage.trackEvent({ records }, { onProgress });
+
+    expect(mockPost).toHaveBeenCalledTimes(3);
+    expect(mockPost.mock.calls.map((call) => call[1].records.length)).toEqual([2, 2, 1]);
+    expect(result.totalRecords).toBe(5);
+    expect(result.results.map((entry: any) => entry.responseData.id)).toEqual([
+      'event_0',
+      'event_1',
+      'event_2',
+      'event_3',
+      'event_4',
+    ]);
+    expect(onProgress).toHaveBeenCalledTimes(3);
+    expect(onProgress).toHaveBeenLastCalledWith({
+      completedChunks: 3,
+      totalChunks: 3,
+      completedRecords: 5,
+      totalRecords: 5,
+      failedRecords: 0,
+    });
+  });
+
+  it('should report a failed chunk as failed records', async () => {
+    mockPost.mockImplementation(async (url: string, body: any) => {
+      if (body.records[0].quantity === 2) {
+        throw new RevMaxError('Network error');
+      }
+      return echoResponse(url, body);
+    });
+
+    const result: any = await usage.trackEvent({ records });
+
+    expect(result.success).toBe(false);
+    expect(result.successCount).toBe(3);
+    expect(result.failureCount).toBe(2);
+    expect(result.results[2]).toMatchObject({
+      success: false,
+      error: 'Network error',
+      retryable: true,
+    });
+  });
+
+  it('should throw when every chunk fails', async () => {
+    mockPost.mockRejectedValue(new RevMaxError('Network error'));
+
+    await expect(usage.trackEvent({ records })).rejects.toThrow('Network error');
+  });
+});
+
+describe('Usage chunked upload with spool', () => {
+  let dir: string;
+  let usage: Usage;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'revmax-spool-'));
+    usage = new Usage(mockApiClient, mockLogger, {
+      chunking: { chunkSize: 2, concurrency: 2 },
+      spool: { enabled: true, path: path.join(dir, 'spool.jsonl'), replayInterval: 0 },
+    });
+  });
+
+  afterEach(async () => {
+    await usage.shutdown();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should flag the records of a spooled chunk', async () => {
+    mockPost.mockImplementation(async (url: string, body: any) => {
+      if (body.records[0].quantity === 2) {
+        throw new RevMaxError('Network error');
+      }
+      return echoResponse(url, body);
+    });
+
+    const result: any = await usage.trackEvent({ records });
+
+    expect(result.results[2]).toMatchObject({ success: false, spooled: true });
+    expect(result.results[0].spooled).toBeUndefined();
+    expect(usage.getSpoolStats().size).toBe(2);
+  });
+
+  it('should throw every spooled idempotency key when every chunk fails', async () => {
+    mockPost.mockRejectedValue(new RevMaxError('Network error'));
+
+    const error = await usage
+      .trackEvent({
+        records: records.map((record, index) => ({ ...record, idempotencyKey: `evt-${index}` })),
+      })
+      .catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(RevMaxSpooledError);
+    expect([...error.idempotencyKeys].sort()).toEqual([
+      'evt-0',
+      'evt-1',
+      'evt-2',
+      'evt-3',
+      'evt-4',
+    ]);
+    expect(usage.getSpoolStats().size).toBe(5);
+  });
+});
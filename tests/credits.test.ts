@@ -0,0 +1,184 @@
+import { Credits, Usage } from '../src/resources';
+import { ApiClient } from '../src/utils/api';
+import { Logger } from '../src/utils/logger';
+
+// Mock ApiClient
+const mockApiClient = {
+  get: jest.fn(),
+  post: jest.fn(),
+} as unknown as ApiClient;
+const mockGet = mockApiClient.get as jest.Mock;
+const mockPost = mockApiClient.post as jest.Mock;
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+const balanceOf = (balance: number) => ({
+  customerExternalId: 'customer_456',
+  balance,
+  updatedAt: '2025-06-01T00:00:00.000Z',
+});
+
+// Wait for the low-balance callback, which is called asynchronously
+const settle = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('Credits', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('resource', () => {
+    let credits: Credits;
+
+    beforeEach(() => {
+      credits = new Credits(mockApiClient, mockLogger);
+    });
+
+    it('should read the balance of a customer', async () => {
+      mockGet.mockResolvedValue(balanceOf(250));
+
+      const balance = await credits.getBalance('customer_456');
+
+      expect(mockGet).toHaveBeenCalledWith('/credits/balance', {
+        customerExternalId: 'customer_456',
+      });
+      expect(balance.balance).toBe(250);
+    });
+
+    it('should grant and expire credits with a reason', async () => {
+      mockPost.mockResolvedValue({ id: 'grant_1' });
+      const params = { customerExternalId: 'customer_456', amount: 1000, reason: 'Top-up' };
+
+      await credits.grant(params, { idempotencyKey: 'topup-1' });
+      await credits.expire('grant_1', { reason: 'Refunded' });
+
+      expect(mockPost).toHaveBeenNthCalledWith(1, '/credits/grants', params, {
+        idempotencyKey: 'topup-1',
+      });
+      expect(mockPost).toHaveBeenNthCalledWith(
+        2,
+        '/credits/grants/grant_1/expire',
+        { reason: 'Refunded' },
+        undefined
+      );
+    });
+
+    it('should iterate over the ledger entries', async () => {
+      mockGet.mockImplementation(async (_url: string, params: any) => ({
+        results: [{ id: `entry_${params.page}` }],
+        page: params.page,
+        limit: 1,
+        totalPages: 2,
+        totalResults: 2,
+      }));
+
+      const ids: string[] = [];
+      for await (const entry of credits.listLedgerAll({ customerExternalId: 'customer_456' })) {
+        ids.push(entry.id);
+      }
+
+      expect(ids).toEqual(['entry_1', 'entry_2']);
+      expect(mockGet).toHaveBeenLastCalledWith('/credits/ledger', {
+        customerExternalId: 'customer_456',
+        page: 2,
+      });
+    });
+  });
+
+  describe('low-balance callback', () => {
+    const onLowBalance = jest.fn();
+    const options = { credits: { lowBalanceThreshold: 100, onLowBalance } };
+
+    it('should fire once when a balance read crosses the threshold', async () => {
+      const credits = new Credits(mockApiClient, mockLogger, options);
+
+      for (const balance of [150, 80, 60, 120, 90]) {
+        mockGet.mockResolvedValueOnce(balanceOf(balance));
+        await credits.getBalance('customer_456');
+      }
+      await settle();
+
+      expect(onLowBalance.mock.calls.map(([event]) => event)).toEqual([
+        { customerExternalId: 'customer_456', balance: 80, previousBalance: 150, threshold: 100 },
+        { customerExternalId: 'customer_456', balance: 90, previousBalance: 120, threshold: 100 },
+      ]);
+    });
+
+    it('should fire for balances reported in trackEvent responses', async () => {
+      const credits = new Credits(mockApiClient, mockLogger, options);
+      const usage = new Usage(mockApiClient, mockLogger, options, undefined, undefined, credits);
+      mockPost.mockResolvedValue({
+        success: true,
+        totalRecords: 2,
+        successCount: 2,
+        failureCount: 0,
+        results: [
+          { success: true, responseData: { id: 'u1', success: true, creditBalance: 500 } },
+          { success: true, responseData: { id: 'u2', success: true, creditBalance: 40 } },
+        ],
+      });
+
+      await usage.trackEvent({
+        records: ['customer_a', 'customer_b'].map((customerExternalId) => ({
+          customerExternalId,
+          agentId: 'agent_123',
+          signalName: 'tokens',
+          quantity: 10,
+        })),
+      });
+      await settle();
+
+      expect(onLowBalance).toHaveBeenCalledTimes(1);
+      expect(onLowBalance).toHaveBeenCalledWith(
+        expect.objectContaining({ customerExternalId: 'customer_b', balance: 40 })
+      );
+    });
+
+    it('should only track the balances of the most recently seen customers', async () => {
+      const credits = new Credits(mockApiClient, mockLogger, {
+        credits: { ...options.credits, maxSize: 2 },
+      });
+
+      credits.observeBalance('customer_a', 50);
+      credits.observeBalance('customer_b', 50);
+      credits.observeBalance('customer_a', 40);
+      credits.observeBalance('customer_c', 50);
+      credits.observeBalance('customer_a', 30);
+      credits.observeBalance('customer_b', 20);
+      await settle();
+
+      // customer_b was evicted, so its next low balance is reported again
+      expect(onLowBalance.mock.calls.map(([event]) => event.customerExternalId)).toEqual([
+        'customer_a',
+        'customer_b',
+        'customer_c',
+        'customer_b',
+      ]);
+      expect(onLowBalance).toHaveBeenLastCalledWith(
+        expect.objectContaining({ customerExternalId: 'customer_b', previousBalance: null })
+      );
+    });
+
+    it('should log errors thrown by the callback', async () => {
+      const credits = new Credits(mockApiClient, mockLogger, {
+        credits: {
+          onLowBalance: async () => {
+            throw new Error('boom');
+          },
+        },
+      });
+
+      credits.observeBalance('customer_456', -5);
+      await settle();
+
+      expect(mockLogger.error).toHaveBeenCalledWith('Low-balance callback failed', {
+        error: expect.any(Error),
+      });
+    });
+  });
+});
@@ -0,0 +1,203 @@
+import axios from 'axios';
+import { ApiKeyAuth } from '../src/auth';
+import { Customers } from '../src/resources';
+import { ApiClient } from '../src/utils/api';
+import { RevMaxApiError } from '../src/utils/errors';
+import { Logger } from '../src/utils/logger';
+
+// Mock axios
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const mockAxiosInstance = {
+  request: jest.fn(),
+  interceptors: {
+    request: { use: jest.fn() },
+    response: { use: jest.fn() },
+  },
+};
+
+// Mock ApiClient
+const mockApiClient = {
+  get: jest.fn(),
+  getConditional: jest.fn(),
+  patch: jest.fn(),
+  delete: jest.fn(),
+} as unknown as ApiClient;
+const mockGet = mockApiClient.get as jest.Mock;
+const mockGetConditional = mockApiClient.getConditional as jest.Mock;
+const mockPatch = mockApiClient.patch as jest.Mock;
+const mockDelete = mockApiClient.delete as jest.Mock;
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+const customer = { id: 'cust_1', name: 'Acme', externalId: 'acme', status: 'active' };
+
+describe('Customer cache', () => {
+  let now: number;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    now = 1000000;
+    jest.spyOn(Date, 'now').mockImplementation(() => now);
+    mockGetConditional.mockResolvedValue({ data: customer, etag: '"v1"', notModified: false });
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const createCustomers = (cache: object = {}) =>
+    new Customers(mockApiClient, mockLogger, {
+      customerCache: { enabled: true, ttl: 1000, ...cache },
+    });
+
+  it('should serve a customer from the cache until the TTL expires', async () => {
+    const customers = createCustomers();
+
+    await customers.get('cust_1');
+    now += 999;
+    await expect(customers.get('cust_1')).resolves.toEqual(customer);
+    expect(mockGetConditional).toHaveBeenCalledTimes(1);
+  });
+
+  it('should revalidate an expired customer with its ETag', async () => {
+    const customers = createCustomers();
+    await customers.get('cust_1');
+
+    now += 1000;
+    mockGetConditional.mockResolvedValueOnce({ etag: '"v1"', notModified: true });
+    await expect(customers.get('cust_1')).resolves.toEqual(customer);
+    expect(mockGetConditional).toHaveBeenLastCalledWith('/customers/cust_1', undefined, '"v1"');
+
+    // The 304 extends the lifetime of the cached customer
+    await customers.get('cust_1');
+    expect(mockGetConditional).toHaveBeenCalledTimes(2);
+  });
+
+  it('should not send the ETag when revalidation is disabled', async () => {
+    const customers = createCustomers({ revalidate: false });
+    await customers.get('cust_1');
+
+    now += 1000;
+    await customers.get('cust_1');
+    expect(mockGetConditional).toHaveBeenLastCalledWith('/customers/cust_1', undefined, undefined);
+  });
+
+  it('should serve lookups by external ID from the cache', async () => {
+    const customers = createCustomers();
+    mockGet.mockResolvedValueOnce({
+      results: [customer],
+      page: 1,
+      limit: 1,
+      totalPages: 1,
+      totalResults: 1,
+    });
+
+    await customers.getByExternalId('acme');
+    await expect(customers.getByExternalId('acme')).resolves.toEqual(customer);
+    await expect(customers.get('cust_1')).resolves.toEqual(customer);
+    expect(mockGet).toHaveBeenCalledTimes(1);
+    expect(mockGetConditional).not.toHaveBeenCalled();
+  });
+
+  it('should look up a cached external ID again once the customer is gone', async () => {
+    const customers = createCustomers();
+    await customers.get('cust_1');
+
+    now += 1000;
+    mockGetConditional.mockRejectedValueOnce(new RevMaxApiError('Not found', 404));
+    mockGet.mockResolvedValueOnce({
+      results: [],
+      page: 1,
+      limit: 1,
+      totalPages: 0,
+      totalResults: 0,
+    });
+
+    await expect(customers.getByExternalId('acme')).resolves.toBeNull();
+  });
+
+  it('should invalidate a customer on update and delete', async () => {
+    const customers = createCustomers();
+    mockPatch.mockResolvedValue({ ...customer, name: 'Acme Inc' });
+
+    await customers.get('cust_1');
+    await customers.update('cust_1', { name: 'Acme Inc' });
+    await customers.get('cust_1');
+    await customers.delete('cust_1');
+    await customers.get('cust_1');
+
+    expect(mockGetConditional).toHaveBeenCalledTimes(3);
+  });
+
+  it('should evict the least recently used customer beyond the max size', async () => {
+    const customers = createCustomers({ maxSize: 2 });
+    mockGetConditional.mockImplementation(async (url: string) => ({
+      data: { id: url.split('/').pop(), name: 'Customer' },
+      notModified: false,
+    }));
+
+    await customers.get('cust_1');
+    await customers.get('cust_2');
+    await customers.get('cust_1');
+    await customers.get('cust_3');
+    mockGetConditional.mockClear();
+
+    await customers.get('cust_1');
+    await customers.get('cust_2');
+    expect(mockGetConditional).toHaveBeenCalledTimes(1);
+    expect(mockGetConditional).toHaveBeenCalledWith('/customers/cust_2', undefined, undefined);
+  });
+
+  it('should not cache when disabled', async () => {
+    const customers = new Customers(mockApiClient, mockLogger);
+    mockGet.mockResolvedValue(customer);
+
+    await customers.get('cust_1');
+    await customers.get('cust_1');
+    expect(mockGet).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('ApiClient.getConditional', () => {
+  let apiClient: ApiClient;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockedAxios.create.mockReturnValue(mockAxiosInstance as any);
+    apiClient = new ApiClient(new ApiKeyAuth('revx_pk_0123456789abcdef'), {}, new Logger());
+  });
+
+  it('should send If-None-Match and report a 304 as not modified', async () => {
+    mockAxiosInstance.request.mockResolvedValueOnce({ status: 304, data: '', headers: {} });
+
+    const response = await apiClient.getConditional('/customers/cust_1', undefined, '"v1"');
+
+    expect(response).toEqual({ data: undefined, etag: '"v1"', notModified: true });
+    const config = mockAxiosInstance.request.mock.calls[0][0];
+    expect(config.headers).toEqual({ 'If-None-Match': '"v1"' });
+    expect(config.validateStatus(304)).toBe(true);
+    expect(config.validateStatus(404)).toBe(false);
+  });
+
+  it('should return the body and ETag of a 200 response', async () => {
+    mockAxiosInstance.request.mockResolvedValueOnce({
+      status: 200,
+      data: customer,
+      headers: { etag: '"v2"' },
+    });
+
+    await expect(apiClient.getConditional('/customers/cust_1')).resolves.toEqual({
+      data: customer,
+      etag: '"v2"',
+      notModified: false,
+    });
+  });
+});
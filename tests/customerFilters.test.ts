@@ -0,0 +1,92 @@
+import axios from 'axios';
+import { Customers } from '../src/resources';
+import { ApiClient, serializeQuery } from '../src/utils/api';
+import { ApiKeyAuth } from '../src/auth';
+import { Logger } from '../src/utils/logger';
+
+// Mock axios
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const mockAxiosInstance = {
+  request: jest.fn(),
+  interceptors: {
+    request: { use: jest.fn() },
+    response: { use: jest.fn() },
+  },
+};
+
+describe('serializeQuery', () => {
+  it('should repeat array values and use bracket keys for nested objects', () => {
+    expect(
+      serializeQuery({
+        externalId: ['acme', 'globex'],
+        createdAt: { from: new Date('2025-01-01T00:00:00Z'), to: '2025-02-01' },
+        metadata: { plan: 'pro', 'sales rep': 'Jane & John' },
+        search: 'acme corp',
+        page: 2,
+        country: undefined,
+      })
+    ).toBe(
+      'externalId=acme&externalId=globex' +
+        '&createdAt[from]=2025-01-01T00%3A00%3A00.000Z&createdAt[to]=2025-02-01' +
+        '&metadata[plan]=pro&metadata[sales%20rep]=Jane%20%26%20John' +
+        '&search=acme%20corp&page=2'
+    );
+  });
+
+  it('should return an empty string without params', () => {
+    expect(serializeQuery()).toBe('');
+  });
+});
+
+describe('Customer list filters', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.create.mockReturnValue(mockAxiosInstance as any);
+    mockAxiosInstance.request.mockResolvedValue({
+      data: { results: [], page: 1, limit: 10, totalPages: 0, totalResults: 0 },
+    });
+  });
+
+  it('should send the filters as query params serialized by the API client', async () => {
+    const logger = new Logger();
+    const apiClient = new ApiClient(new ApiKeyAuth('revx_pk_0123456789abcdef'), {}, logger);
+    const customers = new Customers(apiClient, logger);
+
+    await customers.list({
+      externalId: ['acme', 'globex'],
+      country: 'DE',
+      updatedAt: { from: '2025-01-01' },
+      metadata: { plan: 'pro' },
+      search: 'acme',
+    });
+
+    const { paramsSerializer } = mockedAxios.create.mock.calls[0][0] as any;
+    const { params } = mockAxiosInstance.request.mock.calls[0][0];
+    expect(paramsSerializer.serialize(params)).toBe(
+      'externalId=acme&externalId=globex&country=DE&updatedAt[from]=2025-01-01' +
+        '&metadata[plan]=pro&search=acme'
+    );
+  });
+
+  it('should send the name, status and sort params', async () => {
+    const logger = new Logger();
+    const apiClient = new ApiClient(new ApiKeyAuth('revx_pk_0123456789abcdef'), {}, logger);
+    const customers = new Customers(apiClient, logger);
+
+    await customers.list({
+      name: 'Acme',
+      status: ['active', 'archived'],
+      sortBy: 'createdAt',
+      sortOrder: 'desc',
+      page: 2,
+    });
+
+    const { paramsSerializer } = mockedAxios.create.mock.calls[0][0] as any;
+    const { params } = mockAxiosInstance.request.mock.calls[0][0];
+    expect(paramsSerializer.serialize(params)).toBe(
+      'name=Acme&status=active&status=archived&sortBy=createdAt&sortOrder=desc&page=2'
+    );
+  });
+});
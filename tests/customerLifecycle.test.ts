@@ -0,0 +1,89 @@
+import { Customers } from '../src/resources';
+import { ApiClient } from '../src/utils/api';
+import { Logger } from '../src/utils/logger';
+
+// Mock ApiClient
+const mockApiClient = {
+  get: jest.fn(),
+  post: jest.fn(),
+} as unknown as ApiClient;
+const mockGet = mockApiClient.get as jest.Mock;
+const mockPost = mockApiClient.post as jest.Mock;
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+describe('Customer lifecycle', () => {
+  let customers: Customers;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    customers = new Customers(mockApiClient, mockLogger);
+  });
+
+  it('should suspend a customer with a reason', async () => {
+    const suspended = {
+      id: 'cust_1',
+      name: 'Acme',
+      status: 'suspended',
+      statusReason: 'Payment failed',
+      statusChangedAt: '2025-06-01T00:00:00Z',
+    };
+    mockPost.mockResolvedValueOnce(suspended);
+
+    const result = await customers.suspend('cust_1', { reason: 'Payment failed' });
+
+    expect(result).toEqual(suspended);
+    expect(mockPost).toHaveBeenCalledWith(
+      '/customers/cust_1/suspend',
+      { reason: 'Payment failed' },
+      undefined
+    );
+  });
+
+  it.each([
+    ['reactivate', (id: string) => customers.reactivate(id)],
+    ['archive', (id: string) => customers.archive(id)],
+    ['restore', (id: string) => customers.restore(id, {}, { idempotencyKey: 'key-1' })],
+  ])('should %s a customer', async (action, run) => {
+    mockPost.mockResolvedValueOnce({ id: 'cust_1' });
+
+    await run('cust_1');
+
+    expect(mockPost).toHaveBeenCalledWith(
+      `/customers/cust_1/${action}`,
+      {},
+      action === 'restore' ? { idempotencyKey: 'key-1' } : undefined
+    );
+  });
+
+  it('should list the status history of a customer', async () => {
+    const mockResponse = {
+      results: [
+        {
+          id: 'change_1',
+          customerId: 'cust_1',
+          fromStatus: 'active',
+          toStatus: 'suspended',
+          reason: 'Payment failed',
+          changedAt: '2025-06-01T00:00:00Z',
+        },
+      ],
+      page: 1,
+      limit: 10,
+      totalPages: 1,
+      totalResults: 1,
+    };
+    mockGet.mockResolvedValueOnce(mockResponse);
+
+    const result = await customers.listStatusHistory('cust_1', { limit: 10 });
+
+    expect(result).toEqual(mockResponse);
+    expect(mockGet).toHaveBeenCalledWith('/customers/cust_1/status-history', { limit: 10 });
+  });
+});
@@ -0,0 +1,168 @@
+import { Customers } from '../src/resources';
+import { ApiClient } from '../src/utils/api';
+import { parseCsv } from '../src/utils/csv';
+import { RevMaxApiError, RevMaxValidationError } from '../src/utils/errors';
+import { Logger } from '../src/utils/logger';
+
+// Mock ApiClient
+const mockApiClient = {
+  get: jest.fn(),
+  post: jest.fn(),
+  patch: jest.fn(),
+} as unknown as ApiClient;
+const mockGet = mockApiClient.get as jest.Mock;
+const mockPost = mockApiClient.post as jest.Mock;
+const mockPatch = mockApiClient.patch as jest.Mock;
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+const existingCustomers = [
+  { id: 'cust_1', name: 'Acme', email: 'billing@acme.com', externalId: 'acme' },
+  { id: 'cust_2', name: 'Globex', externalId: 'globex', metadata: { tier: 'gold' } },
+];
+
+const csv = [
+  'Company,Email,External ID,metadata.tier',
+  'Acme,billing@acme.com,acme,',
+  'Globex,,globex,platinum',
+  '"Initech, Inc.",ops@initech.com,initech,silver',
+  'No Id,,,',
+].join('\n');
+
+const columns = { name: 'Company', email: 'Email', externalId: 'External ID' };
+
+describe('parseCsv', () => {
+  it('should parse quoted fields and skip empty lines', () => {
+    expect(parseCsv('name,note\r\n"A, B","say ""hi"""\r\n\r\nC,\n')).toEqual([
+      { name: 'A, B', note: 'say "hi"' },
+      { name: 'C', note: '' },
+    ]);
+  });
+});
+
+describe('Customers bulk sync', () => {
+  let customers: Customers;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockGet.mockImplementation(async (_url: string, params: any) => {
+      const results = existingCustomers.filter((customer) =>
+        params.externalId.includes(customer.externalId)
+      );
+      return { results, page: 1, limit: params.limit, totalPages: 1, totalResults: results.length };
+    });
+    mockPost.mockImplementation(async (_url: string, body: any) => ({ id: 'cust_3', ...body }));
+    mockPatch.mockImplementation(async (url: string, body: any) => ({ id: url, ...body }));
+    customers = new Customers(mockApiClient, mockLogger);
+  });
+
+  it('should create, update and skip customers from CSV', async () => {
+    const report = await customers.syncCsv(csv, { columns });
+
+    expect(report.total).toBe(4);
+    expect(report.unchanged).toEqual([
+      expect.objectContaining({ row: 1, externalId: 'acme', customer: existingCustomers[0] }),
+    ]);
+    expect(report.updated).toEqual([
+      expect.objectContaining({
+        row: 2,
+        externalId: 'globex',
+        changes: { metadata: { tier: 'platinum' } },
+      }),
+    ]);
+    expect(report.created).toEqual([
+      expect.objectContaining({
+        row: 3,
+        changes: {
+          name: 'Initech, Inc.',
+          email: 'ops@initech.com',
+          externalId: 'initech',
+          metadata: { tier: 'silver' },
+        },
+      }),
+    ]);
+    expect(report.failed).toEqual([{ row: 4, action: 'failed', error: 'Missing externalId' }]);
+    expect(mockPatch).toHaveBeenCalledWith(
+      '/customers/cust_2',
+      { metadata: { tier: 'platinum' } },
+      undefined
+    );
+    expect(mockPost).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not write anything in dry-run mode', async () => {
+    const report = await customers.syncCsv(csv, { columns, dryRun: true });
+
+    expect(report.dryRun).toBe(true);
+    expect(report.created).toHaveLength(1);
+    expect(report.updated).toHaveLength(1);
+    expect(report.created[0].customer).toBeUndefined();
+    expect(mockPost).not.toHaveBeenCalled();
+    expect(mockPatch).not.toHaveBeenCalled();
+  });
+
+  it('should report failed requests and duplicate rows without stopping', async () => {
+    mockPost.mockRejectedValueOnce(new RevMaxApiError('Invalid email', 400));
+
+    const report = await customers.syncJson(
+      JSON.stringify([
+        { name: 'Hooli', email: 'not-an-email', externalId: 'hooli' },
+        { name: 'Hooli', externalId: 'hooli' },
+        { name: 'Umbrella', externalId: 'umbrella' },
+      ]),
+      { concurrency: 1 }
+    );
+
+    expect(report.failed).toEqual([
+      { row: 1, externalId: 'hooli', action: 'failed', error: 'Invalid email' },
+      { row: 2, externalId: 'hooli', action: 'failed', error: 'Duplicate externalId in input' },
+    ]);
+    expect(report.created).toEqual([expect.objectContaining({ row: 3, externalId: 'umbrella' })]);
+  });
+
+  it('should limit the number of concurrent requests', async () => {
+    let inFlight = 0;
+    let maxInFlight = 0;
+    mockPost.mockImplementation(async (_url: string, body: any) => {
+      inFlight++;
+      maxInFlight = Math.max(maxInFlight, inFlight);
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      inFlight--;
+      return { id: body.externalId, ...body };
+    });
+
+    const rows = Array.from({ length: 10 }, (_, index) => ({
+      name: `Customer ${index}`,
+      externalId: `new-${index}`,
+    }));
+    const report = await customers.sync(rows, { concurrency: 3 });
+
+    expect(report.created).toHaveLength(10);
+    expect(maxInFlight).toBe(3);
+  });
+
+  it('should only look up the external IDs of the input, in batches', async () => {
+    const rows = Array.from({ length: 120 }, (_, index) => ({
+      name: `Customer ${index}`,
+      externalId: index === 0 ? 'acme' : `new-${index}`,
+    }));
+
+    const report = await customers.sync(rows, { dryRun: true });
+
+    expect(mockGet).toHaveBeenCalledTimes(3);
+    expect(mockGet.mock.calls.map(([, params]) => params.externalId.length)).toEqual([50, 50, 20]);
+    expect(mockGet.mock.calls[0][1]).toMatchObject({ limit: 50, page: 1 });
+    expect(report.updated).toEqual([expect.objectContaining({ row: 1, externalId: 'acme' })]);
+    expect(report.created).toHaveLength(119);
+  });
+
+  it('should reject JSON that is not an array', async () => {
+    await expect(customers.syncJson('{"name":"Acme"}')).rejects.toThrow(RevMaxValidationError);
+  });
+});
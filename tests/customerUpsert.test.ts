@@ -0,0 +1,109 @@
+import { Customers } from '../src/resources';
+import { ApiClient } from '../src/utils/api';
+import { RevMaxApiError } from '../src/utils/errors';
+import { Logger } from '../src/utils/logger';
+
+// Mock ApiClient
+const mockApiClient = {
+  get: jest.fn(),
+  post: jest.fn(),
+  patch: jest.fn(),
+} as unknown as ApiClient;
+const mockGet = mockApiClient.get as jest.Mock;
+const mockPost = mockApiClient.post as jest.Mock;
+const mockPatch = mockApiClient.patch as jest.Mock;
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+const customer = { id: 'cust_1', name: 'Acme', externalId: 'acme' };
+const page = (results: any[]) => ({
+  results,
+  page: 1,
+  limit: 1,
+  totalPages: 1,
+  totalResults: results.length,
+});
+
+describe('Customers lookup and upsert', () => {
+  let customers: Customers;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    customers = new Customers(mockApiClient, mockLogger);
+  });
+
+  it('should get a customer by external ID', async () => {
+    mockGet.mockResolvedValueOnce(page([customer]));
+
+    await expect(customers.getByExternalId('acme')).resolves.toEqual(customer);
+    expect(mockGet).toHaveBeenCalledWith('/customers', { externalId: 'acme', limit: 1 });
+  });
+
+  it('should return null when no customer has the external ID', async () => {
+    mockGet.mockResolvedValueOnce(page([]));
+
+    await expect(customers.getByExternalId('acme')).resolves.toBeNull();
+  });
+
+  it('should update an existing customer on upsert', async () => {
+    mockGet.mockResolvedValueOnce(page([customer]));
+    mockPatch.mockResolvedValueOnce({ ...customer, name: 'Acme Inc' });
+
+    const result = await customers.upsert('acme', { name: 'Acme Inc' });
+
+    expect(result.name).toBe('Acme Inc');
+    expect(mockPost).not.toHaveBeenCalled();
+    expect(mockPatch).toHaveBeenCalledWith(
+      '/customers/cust_1',
+      { name: 'Acme Inc', externalId: 'acme' },
+      undefined
+    );
+  });
+
+  it('should create a missing customer on upsert', async () => {
+    mockGet.mockResolvedValueOnce(page([]));
+    mockPost.mockResolvedValueOnce(customer);
+
+    await expect(customers.upsert('acme', { name: 'Acme' })).resolves.toEqual(customer);
+    expect(mockPost).toHaveBeenCalledWith(
+      '/customers',
+      { name: 'Acme', externalId: 'acme' },
+      undefined
+    );
+  });
+
+  it('should return the customer created by another worker on conflict', async () => {
+    mockGet.mockResolvedValueOnce(page([])).mockResolvedValueOnce(page([customer]));
+    mockPost.mockRejectedValueOnce(new RevMaxApiError('Customer already exists', 409));
+
+    await expect(customers.ensure('acme', { name: 'Acme' })).resolves.toEqual(customer);
+    expect(mockGet).toHaveBeenCalledTimes(2);
+  });
+
+  it('should share one request between concurrent ensure calls', async () => {
+    mockGet.mockResolvedValue(page([]));
+    mockPost.mockResolvedValue(customer);
+
+    const results = await Promise.all([
+      customers.ensure('acme', { name: 'Acme' }),
+      customers.ensure('acme', { name: 'Acme' }),
+    ]);
+
+    expect(results).toEqual([customer, customer]);
+    expect(mockPost).toHaveBeenCalledTimes(1);
+  });
+
+  it('should rethrow errors other than conflicts', async () => {
+    mockGet.mockResolvedValueOnce(page([]));
+    mockPost.mockRejectedValueOnce(new RevMaxApiError('Bad request', 400));
+
+    await expect(customers.ensure('acme', { name: 'Acme' })).rejects.toThrow('Bad request');
+    expect(mockGet).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,125 @@
+import { Entitlements } from '../src/resources';
+import { ApiClient } from '../src/utils/api';
+import { RevMaxValidationError } from '../src/utils/errors';
+import { Logger } from '../src/utils/logger';
+
+// Mock ApiClient
+const mockApiClient = {
+  get: jest.fn(),
+} as unknown as ApiClient;
+const mockGet = mockApiClient.get as jest.Mock;
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+const entitlement = (remaining: number | null) => ({
+  customerExternalId: 'customer_456',
+  signalName: 'tokens',
+  limit: remaining === null ? null : 1000,
+  usage: remaining === null ? 0 : 1000 - remaining,
+  remaining,
+  resetAt: '2025-07-01T00:00:00.000Z',
+});
+
+describe('Entitlements', () => {
+  let entitlements: Entitlements;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useRealTimers();
+    mockGet.mockResolvedValue(entitlement(100));
+    entitlements = new Entitlements(mockApiClient, mockLogger);
+  });
+
+  it('should fetch the entitlement and allow quantities within the remaining balance', async () => {
+    const result = await entitlements.check('customer_456', 'tokens', 40);
+
+    expect(mockGet).toHaveBeenCalledWith('/entitlements', {
+      customerExternalId: 'customer_456',
+      signalName: 'tokens',
+    });
+    expect(result).toEqual({
+      allowed: true,
+      limit: 1000,
+      remaining: 100,
+      resetAt: '2025-07-01T00:00:00.000Z',
+      cached: false,
+    });
+    expect((await entitlements.check('customer_456', 'tokens', 101)).allowed).toBe(false);
+  });
+
+  it('should answer checks from the cache until the TTL expires', async () => {
+    jest.useFakeTimers();
+
+    await entitlements.check('customer_456', 'tokens');
+    const cached = await entitlements.check('customer_456', 'tokens');
+    expect(cached.cached).toBe(true);
+    expect(mockGet).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(5001);
+    await entitlements.check('customer_456', 'tokens');
+    expect(mockGet).toHaveBeenCalledTimes(2);
+  });
+
+  it('should bypass the cache for fresh checks and share concurrent requests', async () => {
+    await Promise.all([
+      entitlements.check('customer_456', 'tokens'),
+      entitlements.check('customer_456', 'tokens'),
+    ]);
+    expect(mockGet).toHaveBeenCalledTimes(1);
+
+    await entitlements.check('customer_456', 'tokens', 1, { fresh: true });
+    expect(mockGet).toHaveBeenCalledTimes(2);
+  });
+
+  it('should reserve allowed quantities locally and release them', async () => {
+    entitlements = new Entitlements(mockApiClient, mockLogger, { entitlements: { reserve: true } });
+
+    expect(await entitlements.check('customer_456', 'tokens', 60)).toMatchObject({
+      allowed: true,
+      remaining: 100,
+    });
+    expect(await entitlements.check('customer_456', 'tokens', 60)).toMatchObject({
+      allowed: false,
+      remaining: 40,
+    });
+
+    entitlements.release('customer_456', 'tokens', 60);
+    expect((await entitlements.check('customer_456', 'tokens', 60)).allowed).toBe(true);
+    expect(mockGet).toHaveBeenCalledTimes(1);
+  });
+
+  it('should drop reservations when the entitlement is fetched again', async () => {
+    await entitlements.check('customer_456', 'tokens', 80, { reserve: true });
+    expect((await entitlements.check('customer_456', 'tokens', 80)).allowed).toBe(false);
+
+    entitlements.clearCache('customer_456');
+    expect((await entitlements.check('customer_456', 'tokens', 80)).allowed).toBe(true);
+  });
+
+  it('should allow any quantity for signals without a limit', async () => {
+    mockGet.mockResolvedValue(entitlement(null));
+
+    const result = await entitlements.check('customer_456', 'tokens', 1e9, { reserve: true });
+
+    expect(result).toMatchObject({ allowed: true, limit: null, remaining: null });
+  });
+
+  it('should reject invalid arguments without a request', async () => {
+    await expect(entitlements.check('', 'tokens', -1)).rejects.toMatchObject({
+      validationErrors: {
+        customerExternalId: ['is required and must be a non-empty string'],
+        quantity: ['must be a non-negative finite number'],
+      },
+    });
+    await expect(entitlements.check('customer_456', 'tokens', NaN)).rejects.toThrow(
+      RevMaxValidationError
+    );
+    expect(mockGet).not.toHaveBeenCalled();
+  });
+});
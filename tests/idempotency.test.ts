@@ -0,0 +1,104 @@
+import axios from 'axios';
+import { Usage } from '../src/resources';
+import { ApiClient } from '../src/utils/api';
+import { ApiKeyAuth } from '../src/auth';
+import { Logger } from '../src/utils/logger';
+
+// Mock axios
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const mockAxiosInstance = {
+  request: jest.fn(),
+  interceptors: {
+    request: { use: jest.fn() },
+    response: { use: jest.fn() },
+  },
+};
+
+const record = {
+  customerExternalId: 'cust-123',
+  agentId: 'agent-456',
+  signalName: 'api_call',
+  quantity: 1,
+};
+
+describe('Idempotency keys', () => {
+  let apiClient: ApiClient;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.create.mockReturnValue(mockAxiosInstance as any);
+    apiClient = new ApiClient(
+      new ApiKeyAuth('revx_pk_0123456789abcdef'),
+      { retries: 2, retryDelay: 0 },
+      new Logger()
+    );
+  });
+
+  it('should send the same generated key on every retry attempt', async () => {
+    mockAxiosInstance.request
+      .mockRejectedValueOnce({ message: 'timeout', config: {} })
+      .mockResolvedValueOnce({ data: { ok: true } });
+
+    await apiClient.post('/customers', { name: 'Test' });
+
+    expect(mockAxiosInstance.request).toHaveBeenCalledTimes(2);
+    const firstKey = mockAxiosInstance.request.mock.calls[0][0].headers['Idempotency-Key'];
+    const secondKey = mockAxiosInstance.request.mock.calls[1][0].headers['Idempotency-Key'];
+    expect(firstKey).toEqual(expect.any(String));
+    expect(secondKey).toBe(firstKey);
+  });
+
+  it('should use a key supplied by the caller', async () => {
+    mockAxiosInstance.request.mockResolvedValueOnce({ data: {} });
+
+    await apiClient.post('/customers', { name: 'Test' }, { idempotencyKey: 'my-key' });
+
+    const config = mockAxiosInstance.request.mock.calls[0][0];
+    expect(config.headers['Idempotency-Key']).toBe('my-key');
+    expect(config).not.toHaveProperty('idempotencyKey');
+  });
+
+  it('should not send a key with GET requests', async () => {
+    mockAxiosInstance.request.mockResolvedValueOnce({ data: {} });
+
+    await apiClient.get('/customers');
+
+    const config = mockAxiosInstance.request.mock.calls[0][0];
+    expect(config.headers?.['Idempotency-Key']).toBeUndefined();
+  });
+
+  it('should give each usage record a stable key', async () => {
+    mockAxiosInstance.request.mockResolvedValue({ data: { results: [] } });
+    const usage = new Usage(apiClient, new Logger());
+
+    await usage.trackEvent({ records: [record, { ...record, idempotencyKey: 'event-2' }] });
+    await usage.trackEvent(record, { idempotencyKey: 'event-3' });
+
+    const firstBody = mockAxiosInstance.request.mock.calls[0][0].data;
+    expect(firstBody.records[0].idempotencyKey).toEqual(expect.any(String));
+    expect(firstBody.records[1].idempotencyKey).toBe('event-2');
+
+    const secondConfig = mockAxiosInstance.request.mock.calls[1][0];
+    expect(secondConfig.data.records[0].idempotencyKey).toBe('event-3');
+    expect(secondConfig.headers['Idempotency-Key']).toBe('event-3');
+  });
+
+  it('should derive the record keys of a batch from its idempotency key', async () => {
+    mockAxiosInstance.request.mockResolvedValue({ data: { results: [] } });
+    const usage = new Usage(apiClient, new Logger());
+    const params = { records: [record, { ...record, idempotencyKey: 'event-2' }, record] };
+
+    await usage.trackEvent(params, { idempotencyKey: 'batch-1' });
+    await usage.trackEvent(params, { idempotencyKey: 'batch-1' });
+
+    const [first, second] = mockAxiosInstance.request.mock.calls.map(([config]) => config.data);
+    expect(first.records.map((item: any) => item.idempotencyKey)).toEqual([
+      'batch-1:0',
+      'event-2',
+      'batch-1:2',
+    ]);
+    expect(second.records).toEqual(first.records);
+  });
+});
@@ -0,0 +1,106 @@
+import axios from 'axios';
+import { Readable } from 'stream';
+import { ApiKeyAuth } from '../src/auth';
+import { Invoices } from '../src/resources';
+import { ApiClient } from '../src/utils/api';
+import { RevMaxApiError } from '../src/utils/errors';
+import { Logger } from '../src/utils/logger';
+
+// Mock axios
+jest.mock('axios');
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+const mockAxiosInstance = {
+  request: jest.fn(),
+  interceptors: {
+    request: { use: jest.fn() },
+    response: { use: jest.fn() },
+  },
+};
+
+describe('Invoices Resource', () => {
+  let apiClient: ApiClient;
+  let invoices: Invoices;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockedAxios.create.mockReturnValue(mockAxiosInstance as any);
+    const logger = new Logger();
+    apiClient = new ApiClient(new ApiKeyAuth('revx_pk_0123456789abcdef'), {}, logger);
+    invoices = new Invoices(apiClient, logger);
+  });
+
+  it('should list invoices filtered by customer, status and period', async () => {
+    const mockResponse = { results: [], page: 1, limit: 10, totalPages: 0, totalResults: 0 };
+    mockAxiosInstance.request.mockResolvedValueOnce({ data: mockResponse });
+
+    const params = {
+      customerExternalId: 'cust-123',
+      status: ['open' as const, 'paid' as const],
+      periodStart: new Date('2025-01-01T00:00:00Z'),
+    };
+    await expect(invoices.list(params)).resolves.toEqual(mockResponse);
+
+    expect(mockAxiosInstance.request).toHaveBeenCalledWith(
+      expect.objectContaining({ method: 'GET', url: '/invoices', params })
+    );
+  });
+
+  it('should get an invoice with line items mapped to signals', async () => {
+    const invoice = {
+      id: 'inv_1',
+      total: 1250,
+      lineItems: [{ id: 'li_1', signalName: 'call_minutes', quantity: 125, amount: 1250 }],
+    };
+    mockAxiosInstance.request.mockResolvedValueOnce({ data: invoice });
+
+    const result = await invoices.get('inv_1');
+
+    expect(result.lineItems[0].signalName).toBe('call_minutes');
+    expect(mockAxiosInstance.request).toHaveBeenCalledWith(
+      expect.objectContaining({ method: 'GET', url: '/invoices/inv_1' })
+    );
+  });
+
+  it('should download the PDF as a readable stream', async () => {
+    const pdf = Readable.from([Buffer.from('%PDF-1.7')]);
+    mockAxiosInstance.request.mockResolvedValueOnce({ status: 200, data: pdf });
+
+    const stream = await invoices.downloadPdf('inv_1');
+
+    expect(stream).toBe(pdf);
+    expect(mockAxiosInstance.request).toHaveBeenCalledWith(
+      expect.objectContaining({
+        method: 'GET',
+        url: '/invoices/inv_1/pdf',
+        headers: { Accept: 'application/pdf' },
+        responseType: 'stream',
+      })
+    );
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+    expect(Buffer.concat(chunks).toString()).toBe('%PDF-1.7');
+  });
+
+  it('should report the API error of a failed PDF download', async () => {
+    const [, onError] = mockAxiosInstance.interceptors.response.use.mock.calls[0];
+    const body = Readable.from([Buffer.from('{"message":"Invoice inv_2 not found",'), '"code":1}']);
+    mockAxiosInstance.request.mockImplementationOnce((config: any) =>
+      onError({
+        message: 'Request failed with status code 404',
+        config,
+        response: { status: 404, data: body },
+      })
+    );
+
+    const error = await invoices.downloadPdf('inv_2').catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(RevMaxApiError);
+    expect(error.statusCode).toBe(404);
+    expect(error.message).toBe('Invoice inv_2 not found');
+    expect(body.readableEnded).toBe(true);
+  });
+});
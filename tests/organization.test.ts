@@ -0,0 +1,99 @@
+import { Organizations } from '../src/resources';
+import { ApiClient } from '../src/utils/api';
+import { Logger } from '../src/utils/logger';
+
+// Mock ApiClient
+const mockApiClient = {
+  get: jest.fn(),
+  post: jest.fn(),
+  patch: jest.fn(),
+} as unknown as ApiClient;
+const mockGet = mockApiClient.get as jest.Mock;
+const mockPost = mockApiClient.post as jest.Mock;
+const mockPatch = mockApiClient.patch as jest.Mock;
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+describe('Organizations', () => {
+  let organization: Organizations;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    organization = new Organizations(mockApiClient, mockLogger);
+  });
+
+  it('should get the organization with its settings', async () => {
+    mockGet.mockResolvedValue({
+      id: 'org_1',
+      name: 'Acme',
+      settings: {
+        currency: 'EUR',
+        timezone: 'Europe/Paris',
+        billing: { paymentTermsDays: 30, autoFinalizeInvoices: true },
+      },
+    });
+
+    const result = await organization.get();
+
+    expect(mockGet).toHaveBeenCalledWith('/organization');
+    expect(result.settings.currency).toBe('EUR');
+  });
+
+  it('should update the settings', async () => {
+    const params = { settings: { timezone: 'UTC', billing: { paymentTermsDays: 14 } } };
+    mockPatch.mockResolvedValue({ id: 'org_1' });
+
+    await organization.update(params);
+
+    expect(mockPatch).toHaveBeenCalledWith('/organization', params, undefined);
+  });
+
+  describe('apiKeys', () => {
+    it('should create a restricted key', async () => {
+      const params = { name: 'ingest', scopes: ['usage:write' as const] };
+      mockPost.mockResolvedValue({ id: 'key_1', key: 'revx_pk_secret', restricted: true });
+
+      const key = await organization.apiKeys.create(params, { idempotencyKey: 'ingest-2025' });
+
+      expect(mockPost).toHaveBeenCalledWith('/organization/api-keys', params, {
+        idempotencyKey: 'ingest-2025',
+      });
+      expect(key.key).toBe('revx_pk_secret');
+    });
+
+    it('should revoke a key', async () => {
+      mockPost.mockResolvedValue({ id: 'key_1', revokedAt: '2025-06-01T00:00:00.000Z' });
+
+      await organization.apiKeys.revoke('key_1');
+
+      expect(mockPost).toHaveBeenCalledWith('/organization/api-keys/key_1/revoke', {}, undefined);
+    });
+
+    it('should list keys with their last use', async () => {
+      mockGet.mockResolvedValue({
+        results: [{ id: 'key_1', lastUsedAt: '2025-05-30T12:00:00.000Z' }],
+        page: 1,
+        limit: 10,
+        totalPages: 1,
+        totalResults: 1,
+      });
+
+      const keys = [];
+      for await (const key of organization.apiKeys.listAll({ includeRevoked: true })) {
+        keys.push(key);
+      }
+
+      expect(mockGet).toHaveBeenCalledWith('/organization/api-keys', {
+        includeRevoked: true,
+        page: 1,
+      });
+      expect(keys[0].lastUsedAt).toBe('2025-05-30T12:00:00.000Z');
+    });
+  });
+});
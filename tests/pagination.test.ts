@@ -0,0 +1,75 @@
+import { Customers } from '../src/resources';
+import { ApiClient } from '../src/utils/api';
+import { Logger } from '../src/utils/logger';
+
+// Mock ApiClient
+const mockApiClient = {
+  get: jest.fn(),
+  post: jest.fn(),
+} as unknown as ApiClient;
+const mockGet = mockApiClient.get as jest.Mock;
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+// Three pages of two customers each
+const pageOf = async (_url: string, params: any) => ({
+  results: [1, 2].map((n) => ({ id: `cust_${(params.page - 1) * 2 + n}` })),
+  page: params.page,
+  limit: 2,
+  totalPages: 3,
+  totalResults: 6,
+});
+
+describe('Customers auto-pagination', () => {
+  let customers: Customers;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockGet.mockImplementation(pageOf);
+    customers = new Customers(mockApiClient, mockLogger);
+  });
+
+  it('should iterate over every customer', async () => {
+    const ids: string[] = [];
+    for await (const customer of customers.listAll({ limit: 2 })) {
+      ids.push(customer.id);
+    }
+
+    expect(ids).toEqual(['cust_1', 'cust_2', 'cust_3', 'cust_4', 'cust_5', 'cust_6']);
+    expect(mockGet).toHaveBeenCalledTimes(3);
+    expect(mockGet).toHaveBeenLastCalledWith('/customers', { limit: 2, page: 3 });
+  });
+
+  it('should prefetch the next page while the current one is processed', async () => {
+    const pages = customers.listPages({ limit: 2 });
+
+    const first = await pages.next();
+    expect(first.value).toMatchObject({ page: 1 });
+    expect(mockGet).toHaveBeenCalledTimes(2);
+
+    await pages.return(undefined);
+  });
+
+  it('should not prefetch when disabled', async () => {
+    const pages = customers.listPages({ limit: 2 }, { prefetch: false });
+
+    await pages.next();
+    expect(mockGet).toHaveBeenCalledTimes(1);
+  });
+
+  it('should stop at the max items cap', async () => {
+    const ids: string[] = [];
+    for await (const customer of customers.listAll({}, { maxItems: 3 })) {
+      ids.push(customer.id);
+    }
+
+    expect(ids).toEqual(['cust_1', 'cust_2', 'cust_3']);
+    expect(mockGet).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,74 @@
+import { Usage } from '../src/resources';
+import { ApiClient } from '../src/utils/api';
+import { Logger } from '../src/utils/logger';
+
+// Mock ApiClient
+const mockApiClient = {
+  get: jest.fn(),
+  post: jest.fn(),
+} as unknown as ApiClient;
+const mockPost = mockApiClient.post as jest.Mock;
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+const call = {
+  customerExternalId: 'cust-123',
+  agentId: 'agent-456',
+  model: 'my-model',
+  inputTokens: 1000,
+  outputTokens: 200,
+  cachedTokens: 400,
+};
+
+describe('Usage.trackLlmCall', () => {
+  let usage: Usage;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    usage = new Usage(mockApiClient, mockLogger, {
+      llmPricing: {
+        'my-model': { inputPerMillion: 2, outputPerMillion: 10, cachedInputPerMillion: 1 },
+      },
+    });
+  });
+
+  it('should estimate the cost from the price table', () => {
+    expect(usage.estimateLlmCost(call)).toEqual({
+      inputCost: 0.0012,
+      cachedInputCost: 0.0004,
+      outputCost: 0.002,
+      totalCost: 0.0036,
+      currency: 'USD',
+    });
+    expect(usage.estimateLlmCost({ ...call, model: 'unknown' })).toBeUndefined();
+  });
+
+  it('should track a record with per-component usage costs', async () => {
+    mockPost.mockResolvedValueOnce({ results: [] });
+
+    await usage.trackLlmCall(call);
+
+    const [sent] = mockPost.mock.calls[0][1].records;
+    expect(sent).toMatchObject({
+      customerExternalId: 'cust-123',
+      agentId: 'agent-456',
+      signalName: 'llm_call',
+      quantity: 1,
+      metadata: {
+        model: 'my-model',
+        usageCost: [
+          { serviceName: 'my-model:input', units: 600 },
+          { serviceName: 'my-model:cached-input', units: 400 },
+          { serviceName: 'my-model:output', units: 200 },
+        ],
+        estimatedCost: expect.objectContaining({ totalCost: 0.0036 }),
+      },
+    });
+  });
+});
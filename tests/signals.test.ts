@@ -0,0 +1,166 @@
+import { Signals, Usage } from '../src/resources';
+import { ApiClient } from '../src/utils/api';
+import { RevMaxError, RevMaxValidationError } from '../src/utils/errors';
+import { Logger } from '../src/utils/logger';
+import { closestMatch } from '../src/utils/suggest';
+
+// Mock ApiClient
+const mockApiClient = {
+  get: jest.fn(),
+  post: jest.fn(),
+} as unknown as ApiClient;
+const mockGet = mockApiClient.get as jest.Mock;
+const mockPost = mockApiClient.post as jest.Mock;
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+const registeredSignals = {
+  results: [
+    { id: 'sig_1', name: 'lead_generated', unit: 'lead', aggregation: 'sum' },
+    { id: 'sig_2', name: 'call_minutes', unit: 'minute', aggregation: 'sum' },
+  ],
+  page: 1,
+  limit: 100,
+  totalPages: 1,
+  totalResults: 2,
+};
+
+const record = (signalName: string) => ({
+  customerExternalId: 'cust-123',
+  agentId: 'agent-456',
+  signalName,
+  quantity: 1,
+});
+
+describe('closestMatch', () => {
+  it('should suggest the closest name within the typo distance', () => {
+    expect(closestMatch('lead_genrated', ['call_minutes', 'lead_generated'])).toBe(
+      'lead_generated'
+    );
+    expect(closestMatch('invoice_sent', ['call_minutes', 'lead_generated'])).toBeUndefined();
+  });
+});
+
+describe('Signals Resource', () => {
+  let signals: Signals;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockGet.mockResolvedValue(registeredSignals);
+    signals = new Signals(mockApiClient, mockLogger);
+  });
+
+  it('should define a signal with its unit and aggregation', async () => {
+    mockPost.mockResolvedValueOnce({ id: 'sig_3', name: 'email_sent' });
+
+    await signals.create({ name: 'email_sent', unit: 'email', aggregation: 'count' });
+
+    expect(mockPost).toHaveBeenCalledWith(
+      '/signals',
+      { name: 'email_sent', unit: 'email', aggregation: 'count' },
+      undefined
+    );
+  });
+
+  it('should reject unknown signals with a suggestion', async () => {
+    const error = await signals
+      .validateRecords({ records: [record('call_minutes'), record('lead_genrated')] })
+      .catch((e) => e);
+
+    expect(error).toBeInstanceOf(RevMaxValidationError);
+    expect(error.validationErrors).toEqual({
+      'records[1].signalName': ['unknown signal "lead_genrated", did you mean "lead_generated"?'],
+    });
+  });
+
+  it('should list the signals again once when a name is unknown', async () => {
+    const now = Date.now();
+    const dateSpy = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    await signals.validateRecords(record('lead_generated'));
+    dateSpy.mockReturnValue(now + 30000);
+    mockGet.mockResolvedValue({
+      ...registeredSignals,
+      results: [...registeredSignals.results, { id: 'sig_3', name: 'email_sent' }],
+    });
+
+    await expect(signals.validateRecords(record('email_sent'))).resolves.toBeUndefined();
+    expect(mockGet).toHaveBeenCalledTimes(2);
+
+    // Right after listing, an unknown name is rejected without listing again
+    await expect(signals.validateRecords(record('email_snet'))).rejects.toThrow(
+      RevMaxValidationError
+    );
+    expect(mockGet).toHaveBeenCalledTimes(2);
+    dateSpy.mockRestore();
+  });
+
+  it('should validate against the last listed signals when listing fails', async () => {
+    const now = Date.now();
+    const dateSpy = jest.spyOn(Date, 'now').mockReturnValue(now);
+
+    await signals.validateRecords(record('lead_generated'));
+    dateSpy.mockReturnValue(now + 5 * 60 * 1000);
+    mockGet.mockRejectedValue(new RevMaxError('Network error'));
+
+    await expect(signals.validateRecords(record('lead_generated'))).resolves.toBeUndefined();
+    await expect(signals.validateRecords(record('lead_genrated'))).rejects.toThrow(
+      RevMaxValidationError
+    );
+
+    // The failed listing is not retried right away
+    expect(mockGet).toHaveBeenCalledTimes(2);
+    dateSpy.mockRestore();
+  });
+});
+
+describe('Usage in strict signal mode', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockGet.mockResolvedValue(registeredSignals);
+    mockPost.mockResolvedValue({
+      success: true,
+      totalRecords: 1,
+      successCount: 1,
+      failureCount: 0,
+      results: [{ success: true, responseData: { id: 'event_1', success: true } }],
+    });
+  });
+
+  it('should not send records with unknown signals', async () => {
+    const usage = new Usage(mockApiClient, mockLogger, { strictSignals: true });
+
+    await expect(usage.trackEvent(record('lead_genrated'))).rejects.toThrow(
+      'Invalid usage record: 1 record(s) reference unknown signals'
+    );
+    expect(mockPost).not.toHaveBeenCalled();
+
+    await usage.trackEvent(record('lead_generated'));
+    expect(mockPost).toHaveBeenCalledTimes(1);
+  });
+
+  it('should send records unchecked when the signals have never been listed', async () => {
+    mockGet.mockRejectedValue(new RevMaxError('Network error'));
+    const usage = new Usage(mockApiClient, mockLogger, { strictSignals: true });
+
+    await usage.trackEvent(record('lead_genrated'));
+
+    expect(mockPost).toHaveBeenCalledTimes(1);
+    expect(mockLogger.warn).toHaveBeenCalledWith(
+      'Sending usage records without checking their signal names'
+    );
+  });
+
+  it('should not check signals when strict mode is off', async () => {
+    const usage = new Usage(mockApiClient, mockLogger);
+
+    await usage.trackEvent(record('lead_genrated'));
+    expect(mockGet).not.toHaveBeenCalled();
+  });
+});
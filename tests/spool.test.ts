@@ -0,0 +1,206 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { Usage } from '../src/resources';
+import { ApiClient } from '../src/utils/api';
+import { UsageSpool } from '../src/utils/spool';
+import { RevMaxApiError, RevMaxError, RevMaxSpooledError } from '../src/utils/errors';
+import { Logger } from '../src/utils/logger';
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+const record = (quantity: number) => ({
+  customerExternalId: 'cust-123',
+  agentId: 'agent-456',
+  signalName: 'api_call',
+  quantity,
+});
+
+const okResponse = (records: any[]) => ({
+  success: true,
+  totalRecords: records.length,
+  successCount: records.length,
+  failureCount: 0,
+  results: records.map(() => ({ success: true })),
+});
+
+describe('UsageSpool', () => {
+  let dir: string;
+  let spoolPath: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'revmax-spool-'));
+    spoolPath = path.join(dir, 'spool.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should acknowledge records once they are delivered', async () => {
+    const send = jest.fn(async (records) => okResponse(records));
+    const spool = new UsageSpool({ path: spoolPath, replayInterval: 0 }, send, mockLogger);
+
+    await spool.write([record(1)]);
+
+    expect(spool.getStats()).toEqual({
+      size: 0,
+      oldestEnqueuedAt: undefined,
+      oldestRecord: undefined,
+    });
+    expect(fs.readFileSync(spoolPath, 'utf8')).toBe('');
+  });
+
+  it('should keep records after a transient failure and replay them after a restart', async () => {
+    const failing = jest.fn().mockRejectedValue(new RevMaxError('Network error'));
+    const spool = new UsageSpool({ path: spoolPath, replayInterval: 0 }, failing, mockLogger);
+
+    await expect(spool.write([record(1), record(2)])).rejects.toThrow('Network error');
+    await expect(spool.write([record(3)])).rejects.toThrow('Network error');
+
+    const stats = spool.getStats();
+    expect(stats.size).toBe(3);
+    expect(stats.oldestRecord).toEqual(record(1));
+    expect(stats.oldestEnqueuedAt).toEqual(expect.any(String));
+
+    // A new process picks up the pending records from disk
+    const send = jest.fn(async (records) => okResponse(records));
+    const restarted = new UsageSpool(
+      { path: spoolPath, replayInterval: 0, replayBatchSize: 2 },
+      send,
+      mockLogger
+    );
+    expect(restarted.size).toBe(3);
+
+    await expect(restarted.replay()).resolves.toBe(3);
+    expect(send).toHaveBeenNthCalledWith(1, [record(1), record(2)]);
+    expect(send).toHaveBeenNthCalledWith(2, [record(3)]);
+    expect(restarted.size).toBe(0);
+  });
+
+  it('should drop records that fail permanently', async () => {
+    const send = jest.fn().mockRejectedValue(new RevMaxApiError('Bad request', 400));
+    const spool = new UsageSpool({ path: spoolPath, replayInterval: 0 }, send, mockLogger);
+
+    await expect(spool.write([record(1)])).rejects.toThrow('Bad request');
+    expect(spool.size).toBe(0);
+  });
+
+  it('should stop replaying at the first transient failure', async () => {
+    const failing = jest.fn().mockRejectedValue(new RevMaxApiError('Unavailable', 503));
+    const spool = new UsageSpool({ path: spoolPath, replayInterval: 0 }, failing, mockLogger);
+
+    await expect(spool.write([record(1)])).rejects.toThrow('Unavailable');
+    await expect(spool.replay()).resolves.toBe(0);
+    expect(spool.size).toBe(1);
+  });
+
+  it('should keep enqueued records on disk without replaying them before they are sent', async () => {
+    const send = jest.fn(async (records) => okResponse(records));
+    const spool = new UsageSpool({ path: spoolPath, replayInterval: 0 }, send, mockLogger);
+    const queued = [record(1), record(2)];
+
+    spool.enqueue(queued);
+    await spool.replay();
+    const restarted = new UsageSpool({ path: spoolPath, replayInterval: 0 }, send, mockLogger);
+
+    expect(send).not.toHaveBeenCalled();
+    expect(restarted.size).toBe(2);
+
+    spool.release([queued[1]]);
+    await spool.write([queued[0]]);
+
+    expect(send).toHaveBeenCalledWith([queued[0]], undefined);
+    expect(spool.size).toBe(0);
+    expect(fs.readFileSync(spoolPath, 'utf8')).toBe('');
+  });
+
+  it('should skip a partially written last line', async () => {
+    const entry = { op: 'add', id: 'a', enqueuedAt: '2025-01-01T00:00:00.000Z', record: record(1) };
+    fs.writeFileSync(spoolPath, `${JSON.stringify(entry)}\n{"op":"ad`);
+
+    const spool = new UsageSpool({ path: spoolPath, replayInterval: 0 }, jest.fn(), mockLogger);
+
+    expect(spool.getStats()).toEqual({
+      size: 1,
+      oldestEnqueuedAt: '2025-01-01T00:00:00.000Z',
+      oldestRecord: record(1),
+    });
+  });
+});
+
+describe('Usage with spool', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'revmax-spool-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should reject with the idempotency keys of records kept in the spool', async () => {
+    const mockApiClient = {
+      post: jest.fn().mockRejectedValue(new RevMaxError('Network error')),
+    } as unknown as ApiClient;
+    const usage = new Usage(mockApiClient, mockLogger, {
+      spool: { enabled: true, path: path.join(dir, 'spool.jsonl'), replayInterval: 0 },
+    });
+
+    const error = await usage
+      .trackEvent({ ...record(1), idempotencyKey: 'evt-1' })
+      .catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(RevMaxSpooledError);
+    expect(error.message).toContain('Network error');
+    expect(error.idempotencyKeys).toEqual(['evt-1']);
+    expect(error.cause).toBeInstanceOf(RevMaxError);
+    expect(usage.getSpoolStats().size).toBe(1);
+    await usage.shutdown();
+  });
+
+  it('should write batched records to the spool as soon as they are queued', async () => {
+    const mockApiClient = {
+      post: jest.fn(async (_url: string, body: any) => okResponse(body.records)),
+    } as unknown as ApiClient;
+    const usage = new Usage(mockApiClient, mockLogger, {
+      batching: { enabled: true, maxBatchSize: 10, flushInterval: 0 },
+      spool: { enabled: true, path: path.join(dir, 'spool.jsonl'), replayInterval: 0 },
+    });
+
+    const tracked = usage.trackEvent(record(1));
+
+    expect(mockApiClient.post).not.toHaveBeenCalled();
+    expect(usage.getSpoolStats().oldestRecord).toMatchObject(record(1));
+
+    await usage.shutdown();
+    await tracked;
+
+    expect(mockApiClient.post).toHaveBeenCalledTimes(1);
+    expect(usage.getSpoolStats().size).toBe(0);
+  });
+
+  it('should reject with the original error when the records were not kept', async () => {
+    const mockApiClient = {
+      post: jest.fn().mockRejectedValue(new RevMaxApiError('Bad request', 400)),
+    } as unknown as ApiClient;
+    const usage = new Usage(mockApiClient, mockLogger, {
+      spool: { enabled: true, path: path.join(dir, 'spool.jsonl'), replayInterval: 0 },
+    });
+
+    const error = await usage.trackEvent(record(1)).catch((caught) => caught);
+
+    expect(error).not.toBeInstanceOf(RevMaxSpooledError);
+    expect(usage.getSpoolStats().size).toBe(0);
+    await usage.shutdown();
+  });
+});
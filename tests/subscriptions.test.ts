@@ -0,0 +1,112 @@
+import { Plans, Subscriptions } from '../src/resources';
+import { ApiClient } from '../src/utils/api';
+import { Logger } from '../src/utils/logger';
+
+// Mock ApiClient
+const mockApiClient = {
+  get: jest.fn(),
+  post: jest.fn(),
+} as unknown as ApiClient;
+const mockGet = mockApiClient.get as jest.Mock;
+const mockPost = mockApiClient.post as jest.Mock;
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+describe('Plans Resource', () => {
+  let plans: Plans;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    plans = new Plans(mockApiClient, mockLogger);
+  });
+
+  it('should list plans with filters', async () => {
+    const mockResponse = { results: [], page: 1, limit: 10, totalPages: 0, totalResults: 0 };
+    mockGet.mockResolvedValueOnce(mockResponse);
+
+    await expect(plans.list({ status: 'active', currency: 'EUR' })).resolves.toEqual(mockResponse);
+    expect(mockGet).toHaveBeenCalledWith('/plans', { status: 'active', currency: 'EUR' });
+  });
+
+  it('should iterate over every plan', async () => {
+    mockGet.mockImplementation(async (_url: string, params: any) => ({
+      results: [{ id: `plan_${params.page}` }],
+      page: params.page,
+      limit: 1,
+      totalPages: 2,
+      totalResults: 2,
+    }));
+
+    const ids: string[] = [];
+    for await (const plan of plans.listAll()) {
+      ids.push(plan.id);
+    }
+
+    expect(ids).toEqual(['plan_1', 'plan_2']);
+  });
+});
+
+describe('Subscriptions Resource', () => {
+  let subscriptions: Subscriptions;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockPost.mockResolvedValue({ id: 'sub_1' });
+    subscriptions = new Subscriptions(mockApiClient, mockLogger);
+  });
+
+  it('should subscribe a customer to a plan', async () => {
+    await subscriptions.create(
+      { customerExternalId: 'cust-123', planId: 'plan_pro', trialDays: 14 },
+      { idempotencyKey: 'signup-cust-123' }
+    );
+
+    expect(mockPost).toHaveBeenCalledWith(
+      '/subscriptions',
+      { customerExternalId: 'cust-123', planId: 'plan_pro', trialDays: 14 },
+      { idempotencyKey: 'signup-cust-123' }
+    );
+  });
+
+  it('should change the plan with proration', async () => {
+    await subscriptions.changePlan('sub_1', {
+      planId: 'plan_enterprise',
+      proration: 'always_invoice',
+    });
+
+    expect(mockPost).toHaveBeenCalledWith(
+      '/subscriptions/sub_1/change-plan',
+      { planId: 'plan_enterprise', proration: 'always_invoice' },
+      undefined
+    );
+  });
+
+  it('should cancel a subscription at the end of the period', async () => {
+    await subscriptions.cancel('sub_1', { atPeriodEnd: true, reason: 'Too expensive' });
+
+    expect(mockPost).toHaveBeenCalledWith(
+      '/subscriptions/sub_1/cancel',
+      { atPeriodEnd: true, reason: 'Too expensive' },
+      undefined
+    );
+  });
+
+  it('should get the current period', async () => {
+    const period = {
+      subscriptionId: 'sub_1',
+      planId: 'plan_pro',
+      start: '2025-06-01T00:00:00Z',
+      end: '2025-07-01T00:00:00Z',
+    };
+    mockGet.mockResolvedValueOnce(period);
+
+    await expect(subscriptions.getCurrentPeriod('sub_1')).resolves.toEqual(period);
+    expect(mockGet).toHaveBeenCalledWith('/subscriptions/sub_1/current-period');
+  });
+});
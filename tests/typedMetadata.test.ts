@@ -0,0 +1,71 @@
+import { Customer, RevMaxClient } from '../src';
+import { Customers, Usage } from '../src/resources';
+import { ApiClient } from '../src/utils/api';
+import { Logger } from '../src/utils/logger';
+
+// Mock ApiClient
+const mockApiClient = {
+  get: jest.fn(),
+  post: jest.fn(),
+} as unknown as ApiClient;
+const mockGet = mockApiClient.get as jest.Mock;
+const mockPost = mockApiClient.post as jest.Mock;
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+interface BillingMetadata {
+  plan: 'free' | 'pro';
+  seats: number;
+}
+
+interface CallMetadata {
+  durationSeconds: number;
+}
+
+describe('Typed metadata', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('should return customers with typed metadata', async () => {
+    mockGet.mockResolvedValueOnce({ id: 'cust_1', metadata: { plan: 'pro', seats: 3 } });
+    const customers = new Customers<BillingMetadata>(mockApiClient, mockLogger);
+
+    const customer: Customer<BillingMetadata> = await customers.get('cust_1');
+    const seats: number | undefined = customer.metadata?.seats;
+
+    expect(seats).toBe(3);
+  });
+
+  it('should type-check metadata of created customers and tracked events', async () => {
+    mockPost.mockResolvedValue({ success: true, results: [] });
+    const customers = new Customers<BillingMetadata>(mockApiClient, mockLogger);
+    const usage = new Usage<CallMetadata>(mockApiClient, mockLogger);
+
+    await customers.create({ name: 'Acme', metadata: { plan: 'free', seats: 1 } });
+    // @ts-expect-error - plan must be 'free' or 'pro'
+    await customers.create({ name: 'Acme', metadata: { plan: 'enterprise', seats: 1 } });
+
+    const event = { customerExternalId: 'acme', agentId: 'agent_1', signalName: 'call' };
+    await usage.trackEvent({ ...event, quantity: 1, metadata: { durationSeconds: 42 } });
+    // @ts-expect-error - durationSeconds must be a number
+    await usage.trackEvent({ ...event, quantity: 1, metadata: { durationSeconds: '42' } });
+
+    expect(mockPost).toHaveBeenCalledTimes(4);
+  });
+
+  it('should flow the client type parameters to its resources', () => {
+    const client = new RevMaxClient<BillingMetadata, CallMetadata>('revx_pk_0123456789abcdef');
+    const customers: Customers<BillingMetadata> = client.customers;
+    const usage: Usage<CallMetadata> = client.usage;
+
+    expect(customers).toBeInstanceOf(Customers);
+    expect(usage).toBeInstanceOf(Usage);
+  });
+});
@@ -0,0 +1,68 @@
+import { Usage } from '../src/resources';
+import { ApiClient } from '../src/utils/api';
+import { Logger } from '../src/utils/logger';
+
+// Mock ApiClient
+const mockApiClient = {
+  get: jest.fn(),
+  post: jest.fn(),
+} as unknown as ApiClient;
+const mockGet = mockApiClient.get as jest.Mock;
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+describe('Usage queries', () => {
+  let usage: Usage;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    usage = new Usage(mockApiClient, mockLogger);
+  });
+
+  it('should list recorded usage with filters', async () => {
+    const mockResponse = { results: [], page: 2, limit: 50, totalPages: 2, totalResults: 60 };
+    mockGet.mockResolvedValueOnce(mockResponse);
+
+    const result = await usage.list({
+      customerExternalId: 'cust-123',
+      signalName: 'api_call',
+      startDate: new Date('2025-01-01T00:00:00Z'),
+      endDate: '2025-02-01T00:00:00Z',
+      page: 2,
+      limit: 50,
+    });
+
+    expect(result).toEqual(mockResponse);
+    expect(mockGet).toHaveBeenCalledWith('/usage', {
+      customerExternalId: 'cust-123',
+      signalName: 'api_call',
+      startDate: '2025-01-01T00:00:00.000Z',
+      endDate: '2025-02-01T00:00:00Z',
+      page: 2,
+      limit: 50,
+    });
+  });
+
+  it('should summarize usage by day by default', async () => {
+    const mockResponse = {
+      groupBy: 'day',
+      results: [{ signalName: 'api_call', period: '2025-01-01', quantity: 12, eventCount: 3 }],
+      totals: { api_call: 12 },
+    };
+    mockGet.mockResolvedValueOnce(mockResponse);
+
+    const result = await usage.summary({ customerExternalId: 'cust-123' });
+
+    expect(result).toEqual(mockResponse);
+    expect(mockGet).toHaveBeenCalledWith('/usage/summary', {
+      customerExternalId: 'cust-123',
+      groupBy: 'day',
+    });
+  });
+});
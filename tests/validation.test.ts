@@ -0,0 +1,84 @@
+import { Usage } from '../src/resources';
+import { ApiClient } from '../src/utils/api';
+import { RevMaxValidationError } from '../src/utils/errors';
+import { Logger } from '../src/utils/logger';
+
+// Mock ApiClient
+const mockApiClient = {
+  get: jest.fn(),
+  post: jest.fn(),
+} as unknown as ApiClient;
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+const validRecord = {
+  customerExternalId: 'cust-123',
+  agentId: 'agent-456',
+  signalName: 'api_call',
+  quantity: 1,
+};
+
+describe('Usage record validation', () => {
+  let usage: Usage;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    usage = new Usage(mockApiClient, mockLogger);
+  });
+
+  it('should reject an invalid single record without making a request', async () => {
+    const error = await usage
+      .trackEvent({ ...validRecord, signalName: ' ', quantity: NaN })
+      .catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(RevMaxValidationError);
+    expect(error.validationErrors).toEqual({
+      signalName: ['is required and must be a non-empty string'],
+      quantity: ['must be a finite number'],
+    });
+    expect(mockApiClient.post).not.toHaveBeenCalled();
+  });
+
+  it('should key batch errors by record index', async () => {
+    const circular: Record<string, any> = {};
+    circular.self = circular;
+
+    const error = await usage
+      .trackEvent({
+        records: [
+          validRecord,
+          { ...validRecord, usageDate: 'not a date' },
+          { ...validRecord, metadata: { nested: { callback: () => undefined }, circular } },
+          { ...validRecord, quantity: Infinity },
+        ],
+      })
+      .catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(RevMaxValidationError);
+    expect(error.validationErrors).toEqual({
+      'records[1].usageDate': ['must be a valid date or ISO date string'],
+      'records[2].metadata.nested.callback': ['cannot be serialized to JSON (function)'],
+      'records[2].metadata.circular.self': ['contains a circular reference'],
+      'records[3].quantity': ['must be a finite number'],
+    });
+    expect(mockApiClient.post).not.toHaveBeenCalled();
+  });
+
+  it('should accept valid records', async () => {
+    (mockApiClient.post as jest.Mock).mockResolvedValueOnce({ results: [] });
+
+    await usage.trackEvent({
+      ...validRecord,
+      usageDate: new Date('2025-01-01'),
+      metadata: { tags: ['a', 'b'], createdAt: new Date() },
+    });
+
+    expect(mockApiClient.post).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,183 @@
+import { PassThrough } from 'stream';
+import { IncomingMessage, ServerResponse } from 'http';
+import { Webhooks } from '../src/resources';
+import { RevMaxError, RevMaxSignatureVerificationError } from '../src/utils/errors';
+import { Logger } from '../src/utils/logger';
+import { WebhookEvent } from '../src/types';
+
+// Mock Logger
+const mockLogger = {
+  debug: jest.fn(),
+  info: jest.fn(),
+  warn: jest.fn(),
+  error: jest.fn(),
+} as unknown as Logger;
+
+const secret = 'whsec_test';
+const payload = JSON.stringify({
+  id: 'evt_1',
+  type: 'quota.exceeded',
+  createdAt: '2025-06-01T00:00:00.000Z',
+  data: {
+    customerExternalId: 'customer_456',
+    signalName: 'tokens',
+    limit: 1000,
+    usage: 1200,
+    periodStart: '2025-06-01',
+    periodEnd: '2025-06-30',
+  },
+});
+
+// Build a request stream with a body and headers
+const requestOf = (body: string, headers: Record<string, string>) => {
+  const req = new PassThrough() as unknown as IncomingMessage;
+  req.headers = headers;
+  (req as unknown as PassThrough).end(body);
+  return req;
+};
+
+const responseMock = () =>
+  ({ statusCode: 0, end: jest.fn() }) as unknown as ServerResponse & { end: jest.Mock };
+
+describe('Webhooks', () => {
+  let webhooks: Webhooks;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    webhooks = new Webhooks(mockLogger);
+  });
+
+  describe('constructEvent', () => {
+    it('should verify the signature and return a typed event', () => {
+      const header = webhooks.generateSignatureHeader(payload, secret);
+
+      const event = webhooks.constructEvent(Buffer.from(payload), header, secret);
+
+      expect(event.type).toBe('quota.exceeded');
+      if (event.type === 'quota.exceeded') {
+        expect(event.data.usage).toBe(1200);
+      }
+    });
+
+    it('should verify the signature over the raw bytes of the body', () => {
+      // Latin-1 encoded body, which is not valid UTF-8
+      const body = Buffer.concat([Buffer.from(payload.slice(0, -1)), Buffer.from([0xe9, 0x7d])]);
+      const header = webhooks.generateSignatureHeader(body, secret);
+
+      expect(() => webhooks.constructEvent(body, header, secret)).not.toThrow(
+        RevMaxSignatureVerificationError
+      );
+    });
+
+    it('should accept any of several signatures during secret rotation', () => {
+      const valid = webhooks.generateSignatureHeader(payload, secret);
+      const header = `${valid.split(',')[0]},v1=${'0'.repeat(64)},${valid.split(',')[1]}`;
+
+      expect(webhooks.constructEvent(payload, header, secret).id).toBe('evt_1');
+    });
+
+    it('should reject a signature computed with another secret', () => {
+      const header = webhooks.generateSignatureHeader(payload, 'whsec_other');
+
+      expect(() => webhooks.constructEvent(payload, header, secret)).toThrow(
+        RevMaxSignatureVerificationError
+      );
+    });
+
+    it('should reject a tampered body', () => {
+      const header = webhooks.generateSignatureHeader(payload, secret);
+
+      expect(() => webhooks.constructEvent(payload.replace('1200', '900'), header, secret)).toThrow(
+        /does not match/
+      );
+    });
+
+    it('should reject missing and malformed headers', () => {
+      expect(() => webhooks.constructEvent(payload, undefined, secret)).toThrow(
+        'Missing webhook signature header'
+      );
+      expect(() => webhooks.constructEvent(payload, 'v1=abc', secret)).toThrow(
+        'Malformed webhook signature header'
+      );
+    });
+
+    it('should reject timestamps outside the tolerance', () => {
+      const old = Math.floor(Date.now() / 1000) - 600;
+      const header = webhooks.generateSignatureHeader(payload, secret, old);
+
+      expect(() => webhooks.constructEvent(payload, header, secret)).toThrow(/tolerance of 300/);
+      expect(webhooks.constructEvent(payload, header, secret, { tolerance: 900 }).id).toBe('evt_1');
+      expect(webhooks.constructEvent(payload, header, secret, { tolerance: 0 }).id).toBe('evt_1');
+    });
+
+    it('should throw a RevMaxError for a signed payload that is not JSON', () => {
+      const header = webhooks.generateSignatureHeader('not json', secret);
+
+      expect(() => webhooks.constructEvent('not json', header, secret)).toThrow(RevMaxError);
+    });
+  });
+
+  describe('middleware', () => {
+    it('should set the event on the request and call next', async () => {
+      const req = requestOf(payload, {
+        'revmax-signature': webhooks.generateSignatureHeader(payload, secret),
+      }) as IncomingMessage & { revmaxEvent?: WebhookEvent };
+      const res = responseMock();
+
+      await new Promise<void>((resolve) => webhooks.middleware(secret)(req, res, () => resolve()));
+
+      expect(req.revmaxEvent).toMatchObject({ id: 'evt_1' });
+    });
+
+    it('should respond 400 when verification fails', async () => {
+      const req = requestOf(payload, { 'revmax-signature': 't=1,v1=00' });
+      const res = responseMock();
+      const next = jest.fn();
+
+      webhooks.middleware(secret)(req, res, next);
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(res.statusCode).toBe(400);
+      expect(next).not.toHaveBeenCalled();
+    });
+
+    it('should pass an error to next when the body was already parsed', async () => {
+      const req = Object.assign(requestOf('', {}), { body: { id: 'evt_1' } });
+      const res = responseMock();
+
+      const error = await new Promise((resolve) => webhooks.middleware(secret)(req, res, resolve));
+
+      expect(error).toBeInstanceOf(RevMaxError);
+    });
+  });
+
+  describe('createHandler', () => {
+    it('should call the handler and respond 200', async () => {
+      const handler = jest.fn();
+      const req = requestOf(payload, {
+        'revmax-signature': webhooks.generateSignatureHeader(payload, secret),
+      });
+      const res = responseMock();
+
+      webhooks.createHandler(secret, handler)(req, res);
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(handler).toHaveBeenCalledWith(expect.objectContaining({ type: 'quota.exceeded' }));
+      expect(res.statusCode).toBe(200);
+    });
+
+    it('should respond 500 when the handler throws', async () => {
+      const req = requestOf(payload, {
+        'revmax-signature': webhooks.generateSignatureHeader(payload, secret),
+      });
+      const res = responseMock();
+
+      webhooks.createHandler(secret, async () => {
+        throw new Error('boom');
+      })(req, res);
+      await new Promise((resolve) => setImmediate(resolve));
+
+      expect(res.statusCode).toBe(500);
+    });
+  });
+});